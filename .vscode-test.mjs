@@ -2,4 +2,6 @@ import { defineConfig } from '@vscode/test-cli';
 
 export default defineConfig({
 	files: 'out/test/**/*.test.js',
+	// Workspace folder for the tests that need one, its files are made up by the tests
+	workspaceFolder: './src/test/fixtures/workspace',
 });
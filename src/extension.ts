@@ -3,17 +3,74 @@
 import * as vscode from 'vscode';
 import { EditorHistoryManager } from './lib/editorHistory';
 import { QuickOpenProvider } from './lib/quickOpenProvider';
+import { FileIndexManager } from './lib/fileIndex';
+import { FrecencyManager } from './lib/frecency';
+import { JumpListManager } from './lib/jumpList';
+import { QueryHistoryManager } from './lib/queryHistory';
+import { PreviewPlaceholderProvider } from './lib/previewPlaceholder';
+import { PickerRegistry } from './lib/pickerRegistry';
+import { checkHealth } from './lib/healthCheck';
+import { SearchPreviewApi } from './types';
+import { getSearchScope } from './utils/fileUtils';
+import { getHeadContent, GIT_HEAD_SCHEME } from './utils/gitUtils';
+import { createOutputChannel } from './utils/logUtils';
+import { resetFzfDetection } from './utils/matcherUtils';
 
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): SearchPreviewApi {
+	// Errors and timings go to the "Search Preview" output channel
+	context.subscriptions.push(createOutputChannel());
+	
+	// Look for fzf again when its path changes
+	context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+		if (event.affectsConfiguration('searchPreview.fzf.path')) {
+			resetFzfDetection();
+		}
+	}));
+	
+	// Track how often and how recently files are opened
+	const frecencyManager = new FrecencyManager(context);
+	
 	// Create and initialize the editor history manager
-	const editorHistoryManager = new EditorHistoryManager(context);
+	const editorHistoryManager = new EditorHistoryManager(context, frecencyManager);
 	editorHistoryManager.registerListeners(context);
 	
+	// Record jumps between locations for back and forward navigation
+	const jumpListManager = new JumpListManager(context, editorHistoryManager);
+	
+	// Create the workspace file index, kept up to date by a file watcher
+	const fileIndexManager = new FileIndexManager();
+	context.subscriptions.push(fileIndexManager);
+	
+	// Remember the queries typed in each picker
+	const queryHistoryManager = new QueryHistoryManager(context);
+	
+	// Serve the placeholders shown instead of files that are too large, binary or slow to preview
+	context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(
+		PreviewPlaceholderProvider.scheme,
+		new PreviewPlaceholderProvider()
+	));
+	
+	// Serve the HEAD versions the git changes picker diffs against when the git extension is not available
+	context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(GIT_HEAD_SCHEME, {
+		provideTextDocumentContent: uri => getHeadContent(uri)
+	}));
+	
+	// Pickers added by other extensions and the customPickers setting
+	const pickerRegistry = new PickerRegistry();
+	context.subscriptions.push(pickerRegistry);
+	
 	// Create the quick open provider
-	const quickOpenProvider = new QuickOpenProvider(editorHistoryManager);
+	const quickOpenProvider = new QuickOpenProvider(
+		editorHistoryManager,
+		fileIndexManager,
+		frecencyManager,
+		jumpListManager,
+		queryHistoryManager,
+		pickerRegistry
+	);
 
 	// Register standard quick open with preview command
 	const quickOpenCommand = vscode.commands.registerCommand(
@@ -29,6 +86,100 @@ export function activate(context: vscode.ExtensionContext) {
 	);
 	context.subscriptions.push(recentEditorsCommand);
 
+	// Register live grep command to search file contents
+	const liveGrepCommand = vscode.commands.registerCommand(
+		'search-preview.liveGrep',
+		() => quickOpenProvider.show('grep')
+	);
+	context.subscriptions.push(liveGrepCommand);
+
+	// Register commands to search the files or contents of a folder, from the Explorer or the editor title menu
+	const quickOpenInFolderCommand = vscode.commands.registerCommand(
+		'search-preview.quickOpenInFolder',
+		async (uri?: vscode.Uri) => quickOpenProvider.show('standard', undefined, await getSearchScope(uri))
+	);
+	context.subscriptions.push(quickOpenInFolderCommand);
+
+	const liveGrepInFolderCommand = vscode.commands.registerCommand(
+		'search-preview.liveGrepInFolder',
+		async (uri?: vscode.Uri) => quickOpenProvider.show('grep', undefined, await getSearchScope(uri))
+	);
+	context.subscriptions.push(liveGrepInFolderCommand);
+
+	// Register workspace symbols command
+	const workspaceSymbolsCommand = vscode.commands.registerCommand(
+		'search-preview.workspaceSymbols',
+		() => quickOpenProvider.show('symbols')
+	);
+	context.subscriptions.push(workspaceSymbolsCommand);
+
+	// Register open editors command
+	const openEditorsCommand = vscode.commands.registerCommand(
+		'search-preview.openEditors',
+		() => quickOpenProvider.show('editors')
+	);
+	context.subscriptions.push(openEditorsCommand);
+
+	// Register git changes command
+	const gitChangedFilesCommand = vscode.commands.registerCommand(
+		'search-preview.gitChangedFiles',
+		() => quickOpenProvider.show('git')
+	);
+	context.subscriptions.push(gitChangedFilesCommand);
+
+	// Register directory picker command, picked folders offer follow-up actions
+	const findDirectoryCommand = vscode.commands.registerCommand(
+		'search-preview.findDirectory',
+		() => quickOpenProvider.show('directories')
+	);
+	context.subscriptions.push(findDirectoryCommand);
+
+	// Register jump list commands
+	const jumpBackCommand = vscode.commands.registerCommand(
+		'search-preview.jumpBack',
+		() => jumpListManager.jumpBack()
+	);
+	context.subscriptions.push(jumpBackCommand);
+
+	const jumpForwardCommand = vscode.commands.registerCommand(
+		'search-preview.jumpForward',
+		() => jumpListManager.jumpForward()
+	);
+	context.subscriptions.push(jumpForwardCommand);
+
+	const showJumpListCommand = vscode.commands.registerCommand(
+		'search-preview.showJumpList',
+		() => quickOpenProvider.show('jumps')
+	);
+	context.subscriptions.push(showJumpListCommand);
+
+	// Register command to reopen the last picker where it was left
+	const resumeCommand = vscode.commands.registerCommand(
+		'search-preview.resume',
+		() => quickOpenProvider.resume()
+	);
+	context.subscriptions.push(resumeCommand);
+
+	// Register commands to cycle through earlier queries in the open picker
+	const previousQueryCommand = vscode.commands.registerCommand(
+		'search-preview.previousQuery',
+		() => quickOpenProvider.cycleQueryHistory(1)
+	);
+	context.subscriptions.push(previousQueryCommand);
+
+	const nextQueryCommand = vscode.commands.registerCommand(
+		'search-preview.nextQuery',
+		() => quickOpenProvider.cycleQueryHistory(-1)
+	);
+	context.subscriptions.push(nextQueryCommand);
+
+	// Register command to show the actions menu of the open picker
+	const showActionsCommand = vscode.commands.registerCommand(
+		'search-preview.showActions',
+		() => quickOpenProvider.showActionsForActivePicker()
+	);
+	context.subscriptions.push(showActionsCommand);
+
 	// Add a command to open search settings
 	const openSearchSettingsCommand = vscode.commands.registerCommand(
 		'search-preview.openSearchSettings',
@@ -37,6 +188,49 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	);
 	context.subscriptions.push(openSearchSettingsCommand);
+
+	// Register command to rebuild the file index from scratch
+	const rebuildFileIndexCommand = vscode.commands.registerCommand(
+		'search-preview.rebuildFileIndex',
+		() => fileIndexManager.rebuild()
+	);
+	context.subscriptions.push(rebuildFileIndexCommand);
+
+	// Register command to clear the editor history, pinned entries are kept
+	const clearEditorHistoryCommand = vscode.commands.registerCommand(
+		'search-preview.clearEditorHistory',
+		async () => {
+			const confirmation = await vscode.window.showWarningMessage(
+				'Are you sure you want to clear the editor history?',
+				{ modal: true, detail: 'Pinned entries are kept.' },
+				'Clear History'
+			);
+			if (confirmation === 'Clear History') {
+				editorHistoryManager.clearHistory();
+			}
+		}
+	);
+	context.subscriptions.push(clearEditorHistoryCommand);
+
+	// Register command to show a custom picker, keybindings can pass the picker's id
+	const customPickerCommand = vscode.commands.registerCommand(
+		'search-preview.showCustomPicker',
+		(id?: string) => quickOpenProvider.showCustomPicker(id)
+	);
+	context.subscriptions.push(customPickerCommand);
+
+	// Register health check command, reports why searches may come up empty
+	const checkHealthCommand = vscode.commands.registerCommand(
+		'search-preview.checkHealth',
+		() => checkHealth(context, fileIndexManager, editorHistoryManager)
+	);
+	context.subscriptions.push(checkHealthCommand);
+
+	// Let other extensions add pickers with the same preview experience
+	return {
+		registerPicker: picker => pickerRegistry.register(picker),
+		showPicker: id => quickOpenProvider.show(`custom:${id}`)
+	};
 }
 
 // This method is called when your extension is deactivated
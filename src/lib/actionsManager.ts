@@ -0,0 +1,230 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PickerEntryAction, SearchQuickPickItem } from '../types';
+import { PreviewManager } from './previewManager';
+import { getItemUri, getRelativePath } from '../utils/fileUtils';
+
+/**
+ * Button shown on every picker item to open the actions menu for it
+ */
+export const ACTIONS_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('ellipsis'),
+    tooltip: 'More Actions...'
+};
+
+interface PickerAction extends vscode.QuickPickItem {
+    run: (items: SearchQuickPickItem[]) => Promise<void>;
+}
+
+/**
+ * Secondary actions for picker results, like telescope's actions
+ */
+export class ActionsManager {
+    private previewManager: PreviewManager;
+
+    constructor(previewManager: PreviewManager) {
+        this.previewManager = previewManager;
+    }
+
+    /**
+     * Show the actions menu for the given items and run the chosen action
+     * @param pickerActions Actions of the registered picker the items come from, listed first
+     */
+    public async showActions(items: SearchQuickPickItem[], pickerActions: PickerEntryAction[] = []): Promise<void> {
+        const targets = items.filter(item => item.data);
+        if (targets.length === 0) {
+            return;
+        }
+
+        const subject = targets.length === 1
+            ? path.basename(targets[0].data!.filePath)
+            : `${targets.length} selected files`;
+
+        const actions = [
+            ...pickerActions.map(pickerAction => ({
+                label: pickerAction.label,
+                run: async (actionItems: SearchQuickPickItem[]) => {
+                    const entries = actionItems.flatMap(item => item.entry ? [item.entry] : []);
+                    await pickerAction.run(entries);
+                }
+            })),
+            ...this.getActions(targets.length)
+        ];
+        const action = await vscode.window.showQuickPick(actions, {
+            placeHolder: `Actions for ${subject}`
+        });
+        if (action) {
+            await action.run(targets);
+        }
+    }
+
+    /**
+     * Show what can be done with a folder picked in the directory picker and run the chosen action
+     * @param findFiles Opens a file search scoped to the folder
+     */
+    public async showDirectoryActions(
+        directory: vscode.Uri,
+        findFiles: (directory: vscode.Uri) => Promise<void>
+    ): Promise<void> {
+        const actions: { label: string; run: () => Promise<void> }[] = [
+            {
+                label: '$(search) Find Files in Folder',
+                run: () => findFiles(directory)
+            },
+            {
+                label: '$(terminal) Open Terminal Here',
+                run: async () => vscode.window.createTerminal({ cwd: directory }).show()
+            },
+            {
+                label: '$(new-file) New File Here...',
+                run: () => this.createFile(directory)
+            }
+        ];
+
+        const action = await vscode.window.showQuickPick(actions, {
+            placeHolder: `Actions for ${getRelativePath(directory)}`
+        });
+        if (action) {
+            await action.run();
+        }
+    }
+
+    private getActions(count: number): PickerAction[] {
+        return [
+            {
+                label: '$(split-horizontal) Open to the Side',
+                run: items => this.openFiles(items, vscode.ViewColumn.Beside)
+            },
+            // Opening "all" of a single file is the same as accepting it
+            ...(count > 1 ? [{
+                label: '$(files) Open All Selected',
+                run: (items: SearchQuickPickItem[]) => this.openFiles(items)
+            }] : []),
+            {
+                label: '$(copy) Copy Relative Path',
+                run: items => this.copyPaths(items, true)
+            },
+            {
+                label: '$(copy) Copy Path',
+                run: items => this.copyPaths(items, false)
+            },
+            {
+                label: '$(list-tree) Reveal in Explorer',
+                run: items => this.revealInExplorer(items[0])
+            },
+            {
+                label: '$(folder-opened) Reveal in File Explorer',
+                run: items => this.revealInOS(items[0])
+            },
+            {
+                label: '$(edit) Rename...',
+                run: items => this.renameFile(items[0])
+            },
+            {
+                label: '$(trash) Delete',
+                run: items => this.deleteFiles(items)
+            }
+        ];
+    }
+
+    /**
+     * Open each file permanently, the last one ends up focused
+     */
+    private async openFiles(items: SearchQuickPickItem[], viewColumn?: vscode.ViewColumn): Promise<void> {
+        for (const item of items) {
+            await this.previewManager.openSelectedFile(item.data, viewColumn);
+        }
+    }
+
+    private async copyPaths(items: SearchQuickPickItem[], relative: boolean): Promise<void> {
+        const paths = items.map(item => {
+            const uri = getItemUri(item.data!);
+            return relative ? getRelativePath(uri) : uri.fsPath;
+        });
+        await vscode.env.clipboard.writeText(paths.join('\n'));
+    }
+
+    private async revealInExplorer(item: SearchQuickPickItem): Promise<void> {
+        await vscode.commands.executeCommand('revealInExplorer', getItemUri(item.data!));
+    }
+
+    private async revealInOS(item: SearchQuickPickItem): Promise<void> {
+        await vscode.commands.executeCommand('revealFileInOS', getItemUri(item.data!));
+    }
+
+    /**
+     * Rename through a workspace edit, so rename participants (e.g. import updates) run
+     */
+    private async renameFile(item: SearchQuickPickItem): Promise<void> {
+        const uri = getItemUri(item.data!);
+        const fileName = path.basename(uri.fsPath);
+
+        const newName = await vscode.window.showInputBox({
+            prompt: 'New file name',
+            value: fileName,
+            // Select the name without its extension, like the Explorer does
+            valueSelection: [0, fileName.length - path.extname(fileName).length],
+            validateInput: value => value.trim() && !/[\\/]/.test(value)
+                ? undefined
+                : 'Enter a file name without folders'
+        });
+        if (!newName || newName === fileName) {
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.renameFile(uri, vscode.Uri.joinPath(uri, '..', newName.trim()));
+        if (!await vscode.workspace.applyEdit(edit)) {
+            vscode.window.showErrorMessage(`Could not rename file: ${fileName}`);
+        }
+    }
+
+    /**
+     * Create a file through a workspace edit, like the Explorer does, and open it.
+     * The name may contain folders, they are created as well
+     */
+    private async createFile(directory: vscode.Uri): Promise<void> {
+        const fileName = await vscode.window.showInputBox({
+            prompt: `New file in ${getRelativePath(directory)}`,
+            validateInput: value => value.trim() ? undefined : 'Enter a file name'
+        });
+        if (!fileName) {
+            return;
+        }
+
+        const uri = vscode.Uri.joinPath(directory, fileName.trim());
+        const edit = new vscode.WorkspaceEdit();
+        edit.createFile(uri, { ignoreIfExists: true });
+        if (!await vscode.workspace.applyEdit(edit)) {
+            vscode.window.showErrorMessage(`Could not create file: ${fileName}`);
+            return;
+        }
+        await vscode.window.showTextDocument(uri);
+    }
+
+    /**
+     * Delete through a workspace edit, like the Explorer does, so delete participants run and
+     * onDidDeleteFiles fires. VS Code moves the files to the trash when files.enableTrash is on
+     */
+    private async deleteFiles(items: SearchQuickPickItem[]): Promise<void> {
+        const uris = items.map(item => getItemUri(item.data!));
+        const subject = uris.length === 1 ? `'${path.basename(uris[0].fsPath)}'` : `${uris.length} files`;
+        const useTrash = vscode.workspace.getConfiguration('files').get<boolean>('enableTrash', true);
+        const action = useTrash ? 'Move to Trash' : 'Delete';
+
+        const confirmation = await vscode.window.showWarningMessage(
+            `Are you sure you want to delete ${subject}?`,
+            { modal: true, detail: useTrash ? 'You can restore from the Trash.' : 'This action is irreversible!' },
+            action
+        );
+        if (confirmation !== action) {
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        uris.forEach(uri => edit.deleteFile(uri, { recursive: true, ignoreIfNotExists: true }));
+        if (!await vscode.workspace.applyEdit(edit)) {
+            vscode.window.showErrorMessage(`Could not delete ${subject}`);
+        }
+    }
+}
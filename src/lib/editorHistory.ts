@@ -1,38 +1,94 @@
 import * as vscode from 'vscode';
-import { EditorHistoryItem } from '../types';
+import { EditorHistoryItem, PersistedEditorHistory } from '../types';
+import { FrecencyManager } from './frecency';
+import { getRelativePath } from '../utils/fileUtils';
+import { SettingsManager } from '../utils/settingsUtils';
+import { logError } from '../utils/logUtils';
+
+// Version of the persisted history, bump it and extend migrateHistory when the format changes
+const HISTORY_SCHEMA_VERSION = 1;
+
+// Documents that are not worth remembering, like output channels and diff sides
+const IGNORED_SCHEMES = new Set([
+    'output',
+    'debug',
+    'git',
+    'vscode-scm',
+    'comment',
+    'walkThrough',
+    'walkThroughSnippet',
+    'vscode-notebook-cell',
+    'search-preview',
+    'search-preview-head'
+]);
+
+// Delay before cursor moves are written to storage, they come in bursts
+const SAVE_DELAY = 1000;
+
+/**
+ * Bring persisted history of any earlier version up to the current format
+ */
+export function migrateHistory(
+    saved: PersistedEditorHistory | PersistedEditorHistory['items'] | undefined
+): PersistedEditorHistory['items'] {
+    if (!saved) {
+        return [];
+    }
+
+    // Before versioning, the history was stored as a bare list
+    let { version, items } = Array.isArray(saved) ? { version: 0, items: saved } : saved;
+
+    if (version < 1) {
+        // Relative paths used to be prefixed with the folder name in multi-root
+        // workspaces, and entries could miss their cursor position
+        items = items.map(item => ({
+            ...item,
+            linePos: item.linePos ?? 0,
+            colPos: item.colPos ?? 0,
+            relativePath: getRelativePath(vscode.Uri.parse(item.uri))
+        }));
+        version = 1;
+    }
+
+    return items;
+}
 
 export class EditorHistoryManager {
     private history: EditorHistoryItem[] = [];
-    private readonly MAX_HISTORY_SIZE = 100;
     private previewMode = false;
+    // URIs of the files shown in the preview, as strings
     private previewedFiles = new Set<string>();
     private lastOpenedFile?: string;
     private storage: vscode.Memento;
+    private frecencyManager?: FrecencyManager;
+    private saveTimer?: NodeJS.Timeout;
 
-    constructor(context: vscode.ExtensionContext) {
+    constructor(context: vscode.ExtensionContext, frecencyManager?: FrecencyManager) {
+        this.frecencyManager = frecencyManager;
+        
         // Use workspaceState instead of globalState for project-specific storage
         this.storage = context.workspaceState;
         
         // Load saved history and convert string URIs back to vscode.Uri objects
-        const savedHistory = this.storage.get<EditorHistoryItem[]>('editorHistory', []);
-        this.history = savedHistory.map(item => ({
+        this.history = migrateHistory(this.storage.get('editorHistory')).map(item => ({
             ...item,
-            uri: vscode.Uri.parse(item.uri.toString())
+            uri: vscode.Uri.parse(item.uri)
         }));
 
         // Initialize with currently open editors
         vscode.window.visibleTextEditors.forEach(editor => {
-            if (editor.document.uri.scheme === 'file') {
+            if (this.isTracked(editor.document.uri)) {
                 this.updateHistory(editor);
             }
         });
+    }
 
-        // Listen for editor changes
-        vscode.window.onDidChangeActiveTextEditor(editor => {
-            if (editor && editor.document.uri.scheme === 'file' && !this.previewMode) {
-                this.updateHistory(editor);
-            }
-        });
+    /**
+     * Whether documents with this URI belong in the history: files, untitled and
+     * remote documents, but not internal ones like output channels
+     */
+    public isTracked(uri: vscode.Uri): boolean {
+        return !IGNORED_SCHEMES.has(uri.scheme);
     }
 
     /**
@@ -55,34 +111,43 @@ export class EditorHistoryManager {
         }
     }
     
+    /**
+     * Whether the picker is previewing files, active editor changes are not the user's then
+     */
+    public isPreviewMode(): boolean {
+        return this.previewMode;
+    }
+    
     /**
      * Register a file as being previewed
      */
-    public addPreviewedFile(filePath: string): void {
-        this.previewedFiles.add(filePath);
+    public addPreviewedFile(uri: vscode.Uri): void {
+        this.previewedFiles.add(uri.toString());
     }
     
     /**
      * Force a file to be added to history, regardless of preview mode
      * Used when a file is explicitly opened
      */
-    public forceAddToHistory(filePath: string, linePos: number = 0, colPos: number = 0): void {
-        // Create a Uri from the file path
-        const uri = vscode.Uri.file(filePath);
-        
+    public forceAddToHistory(uri: vscode.Uri, linePos: number = 0, colPos: number = 0): void {
         // Get the relative path in the same format as standard search
-        const relativePath = vscode.workspace.asRelativePath(filePath);
+        const relativePath = getRelativePath(uri);
         
         // Mark that this was the last opened file, so even if it becomes active later
         // we know it should be added to history
-        this.lastOpenedFile = filePath;
+        this.lastOpenedFile = uri.toString();
         
-        // Remove this URI from the history if it exists
+        // Remove this URI from the history if it exists. Compare full URIs, relative paths
+        // are ambiguous when several workspace folders contain the same file names
         const existingIndex = this.history.findIndex(item => 
-            vscode.workspace.asRelativePath(item.uri.fsPath) === relativePath
+            item.uri.toString() === uri.toString()
         );
-        if (existingIndex >= 0) {
-            this.history.splice(existingIndex, 1);
+        const existingItem = existingIndex >= 0 ? this.history.splice(existingIndex, 1)[0] : undefined;
+        
+        // Only count a visit when the file wasn't already the most recent one,
+        // re-activating the same editor is not a new visit
+        if (existingIndex !== 0) {
+            this.frecencyManager?.recordVisit(uri);
         }
         
         // Add to the beginning of the history (most recent)
@@ -91,13 +156,12 @@ export class EditorHistoryManager {
             timestamp: Date.now(),
             linePos: linePos,
             colPos: colPos,
-            relativePath: relativePath // Store the relative path for consistent searching
+            relativePath: relativePath, // Store the relative path for consistent searching
+            pinned: existingItem?.pinned
         });
         
         // Trim history if it's too long
-        if (this.history.length > this.MAX_HISTORY_SIZE) {
-            this.history.pop();
-        }
+        this.trimHistory();
 
         // Save the updated history
         this.saveHistory();
@@ -112,8 +176,8 @@ export class EditorHistoryManager {
         // Skip if we're in preview mode and this is a previewed file
         // But don't skip if this was just explicitly opened (lastOpenedFile)
         if (this.previewMode && 
-            this.previewedFiles.has(uri.fsPath) && 
-            this.lastOpenedFile !== uri.fsPath) {
+            this.previewedFiles.has(uri.toString()) && 
+            this.lastOpenedFile !== uri.toString()) {
             return;
         }
         
@@ -121,14 +185,19 @@ export class EditorHistoryManager {
         this.lastOpenedFile = undefined;
         
         // Get the relative path in the same format as standard search
-        const relativePath = vscode.workspace.asRelativePath(uri.fsPath);
+        const relativePath = getRelativePath(uri);
         
-        // Remove this URI from the history if it exists
+        // Remove this URI from the history if it exists. Compare full URIs, relative paths
+        // are ambiguous when several workspace folders contain the same file names
         const existingIndex = this.history.findIndex(item => 
-            vscode.workspace.asRelativePath(item.uri.fsPath) === relativePath
+            item.uri.toString() === uri.toString()
         );
-        if (existingIndex >= 0) {
-            this.history.splice(existingIndex, 1);
+        const existingItem = existingIndex >= 0 ? this.history.splice(existingIndex, 1)[0] : undefined;
+        
+        // Only count a visit when the file wasn't already the most recent one,
+        // re-activating the same editor is not a new visit
+        if (existingIndex !== 0) {
+            this.frecencyManager?.recordVisit(uri);
         }
         
         // Add to the beginning of the history (most recent)
@@ -137,31 +206,147 @@ export class EditorHistoryManager {
             timestamp: Date.now(),
             linePos: editor.selection.active.line,
             colPos: editor.selection.active.character,
-            relativePath: relativePath // Store the relative path for consistent searching
+            relativePath: relativePath, // Store the relative path for consistent searching
+            pinned: existingItem?.pinned
         });
         
         // Trim history if it's too long
-        if (this.history.length > this.MAX_HISTORY_SIZE) {
-            this.history.pop();
-        }
+        this.trimHistory();
 
         // Save the updated history
         this.saveHistory();
     }
 
+    /**
+     * Drop the oldest entries beyond the configured size, pinned entries are never evicted
+     */
+    private trimHistory(): void {
+        const maxSize = SettingsManager.getHistoryMaxSize();
+        for (let i = this.history.length - 1; i >= 0 && this.history.length > maxSize; i--) {
+            if (!this.history[i].pinned) {
+                this.history.splice(i, 1);
+            }
+        }
+    }
+    
+    /**
+     * Pin or unpin a history entry, pinned entries stay on top of the list and are never evicted
+     */
+    public setPinned(uri: vscode.Uri, pinned: boolean): void {
+        const item = this.history.find(historyItem => historyItem.uri.toString() === uri.toString());
+        if (item) {
+            item.pinned = pinned || undefined;
+            this.saveHistory();
+        }
+    }
+    
+    /**
+     * Remove a file from the history
+     */
+    public removeFromHistory(uri: vscode.Uri): void {
+        this.history = this.history.filter(item => item.uri.toString() !== uri.toString());
+        this.saveHistory();
+    }
+    
+    /**
+     * Clear the history, keeping pinned entries
+     */
+    public clearHistory(): void {
+        this.history = this.history.filter(item => item.pinned);
+        this.saveHistory();
+    }
+
+    /**
+     * Remember the cursor position of the most recent editor as it moves
+     */
+    private updateCursorPosition(editor: vscode.TextEditor): void {
+        const item = this.history[0];
+        if (!item || item.uri.toString() !== editor.document.uri.toString()) {
+            return;
+        }
+
+        item.linePos = editor.selection.active.line;
+        item.colPos = editor.selection.active.character;
+
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+        }
+        this.saveTimer = setTimeout(() => this.saveHistory(), SAVE_DELAY);
+    }
+
+    /**
+     * Follow renamed files and folders, so their entries keep their place in the history
+     */
+    private handleRename(files: readonly { oldUri: vscode.Uri; newUri: vscode.Uri }[]): void {
+        let changed = false;
+
+        for (const { oldUri, newUri } of files) {
+            const oldKey = oldUri.toString().replace(/\/$/, '');
+            const newKey = newUri.toString().replace(/\/$/, '');
+
+            for (const item of this.history) {
+                const key = item.uri.toString();
+                // A renamed folder takes all its files with it
+                if (key === oldKey || key.startsWith(`${oldKey}/`)) {
+                    item.uri = vscode.Uri.parse(newKey + key.slice(oldKey.length));
+                    item.relativePath = getRelativePath(item.uri);
+                    changed = true;
+                }
+            }
+        }
+
+        if (changed) {
+            // A file renamed over one that was in the history leaves two entries for it
+            const seen = new Set<string>();
+            this.history = this.history.filter(item => {
+                const key = item.uri.toString();
+                if (seen.has(key)) {
+                    return false;
+                }
+                seen.add(key);
+                return true;
+            });
+            this.saveHistory();
+        }
+    }
+
+    /**
+     * Forget deleted files and the contents of deleted folders
+     */
+    private handleDelete(uris: readonly vscode.Uri[]): void {
+        const deletedKeys = uris.map(uri => uri.toString().replace(/\/$/, ''));
+        const isDeleted = (item: EditorHistoryItem) => {
+            const key = item.uri.toString();
+            return deletedKeys.some(deletedKey => key === deletedKey || key.startsWith(`${deletedKey}/`));
+        };
+
+        if (this.history.some(isDeleted)) {
+            this.history = this.history.filter(item => !isDeleted(item));
+            this.saveHistory();
+        }
+    }
+
     /**
      * Save the current history to persistent storage
      */
     private async saveHistory(): Promise<void> {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+        }
+
         try {
             // Convert URIs to strings before saving
-            const historyToSave = this.history.map(item => ({
-                ...item,
-                uri: item.uri.toString()
-            }));
+            const historyToSave: PersistedEditorHistory = {
+                version: HISTORY_SCHEMA_VERSION,
+                items: this.history.map(item => ({
+                    ...item,
+                    uri: item.uri.toString()
+                }))
+            };
             await this.storage.update('editorHistory', historyToSave);
         } catch (error) {
-            console.error('Error saving editor history:', error);
+            logError('Error saving editor history', error);
         }
     }
 
@@ -169,22 +354,33 @@ export class EditorHistoryManager {
      * Register event listeners to track editor history
      */
     public registerListeners(context: vscode.ExtensionContext): void {
-        // Add text document open listener to track editor history
         context.subscriptions.push(
-            vscode.window.onDidChangeActiveTextEditor((editor) => {
-                if (editor && editor.document.uri.scheme === 'file') {
-                    // Only add to history if:
-                    // 1. Not in preview mode, or
-                    // 2. This file wasn't just previewed, or
-                    // 3. This is the file that was just explicitly opened
-                    const filePath = editor.document.uri.fsPath;
-                    if (!this.previewMode || 
-                        !this.previewedFiles.has(filePath) || 
-                        this.lastOpenedFile === filePath) {
-                        this.updateHistory(editor);
+            // Files that become active go to the top of the history. updateHistory
+            // skips files that are only being previewed
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                if (editor && this.isTracked(editor.document.uri)) {
+                    this.updateHistory(editor);
+                }
+            }),
+            // Keep the cursor position current, not just the one the file was activated with.
+            // Previews move the cursor too, those moves are not the user's
+            vscode.window.onDidChangeTextEditorSelection(event => {
+                if (!this.previewMode && event.textEditor === vscode.window.activeTextEditor) {
+                    this.updateCursorPosition(event.textEditor);
+                }
+            }),
+            // Renames and deletes through VS Code, files removed by other programs are
+            // still skipped when the recent editors list is loaded
+            vscode.workspace.onDidRenameFiles(event => this.handleRename(event.files)),
+            vscode.workspace.onDidDeleteFiles(event => this.handleDelete(event.files)),
+            // Write pending cursor moves when the extension shuts down
+            {
+                dispose: () => {
+                    if (this.saveTimer) {
+                        this.saveHistory();
                     }
                 }
-            })
+            }
         );
     }
-} 
\ No newline at end of file
+}
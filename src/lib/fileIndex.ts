@@ -0,0 +1,240 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SettingsManager } from '../utils/settingsUtils';
+import { clearIgnoreFiles, loadIgnoreFiles } from '../utils/ignoreUtils';
+import { logInfo, logTiming, reportError } from '../utils/logUtils';
+
+// Files whose rules decide what belongs in the index
+const IGNORE_FILE_NAMES = ['.gitignore', '.ignore'];
+
+// Delay before changed settings or ignore files rebuild the index, a branch switch changes many at once
+const REBUILD_DELAY = 500;
+
+// A file the watcher added or removed while the workspace was being crawled
+interface WatchedChange {
+    uri: vscode.Uri;
+    created: boolean;
+}
+
+/**
+ * Keeps an in-memory list of workspace files so searches don't have to
+ * crawl the workspace on every keystroke
+ */
+export class FileIndexManager implements vscode.Disposable {
+    private files = new Map<string, vscode.Uri>();
+    private indexing?: Promise<void>;
+    // Incremented on every rebuild so a slower, outdated crawl can't overwrite a newer one
+    private generation = 0;
+    private rebuildTimer?: NodeJS.Timeout;
+    // Changes made while crawling, they are applied again once the crawl replaces the index
+    private crawlChanges?: WatchedChange[];
+    private statusBarItem: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * @param watcher Reports the created, changed and deleted files, by default of the whole workspace
+     */
+    constructor(watcher: vscode.FileSystemWatcher = vscode.workspace.createFileSystemWatcher('**/*')) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+        this.statusBarItem.text = '$(sync~spin) Indexing files';
+        this.statusBarItem.tooltip = 'Search Preview is building its file index';
+        this.disposables.push(this.statusBarItem);
+
+        // Follow file system changes so the index stays current
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(uri => this.handleCreate(uri)),
+            watcher.onDidChange(uri => this.handleChange(uri)),
+            watcher.onDidDelete(uri => this.handleDelete(uri))
+        );
+
+        // The exclude settings, ignore files and workspace folders decide what belongs in the index
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('searchPreview.search.excludeDirectories') ||
+                    event.affectsConfiguration('searchPreview.search.excludePatterns') ||
+                    event.affectsConfiguration('searchPreview.search.useIgnoreFiles') ||
+                    event.affectsConfiguration('searchPreview.search.useFilesExclude') ||
+                    event.affectsConfiguration('searchPreview.search.useSearchExclude') ||
+                    event.affectsConfiguration('files.exclude') ||
+                    event.affectsConfiguration('search.exclude')) {
+                    this.scheduleRebuild();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.scheduleRebuild())
+        );
+
+        this.rebuild();
+    }
+
+    /**
+     * Get all indexed files, waiting for the initial crawl if it is still running
+     */
+    public async getFiles(): Promise<vscode.Uri[]> {
+        if (this.indexing) {
+            await this.indexing;
+        }
+        return Array.from(this.files.values());
+    }
+
+    /**
+     * Throw away the index and crawl the workspace again
+     */
+    public rebuild(): Promise<void> {
+        if (this.rebuildTimer) {
+            clearTimeout(this.rebuildTimer);
+            this.rebuildTimer = undefined;
+        }
+        const generation = ++this.generation;
+        const crawlChanges: WatchedChange[] = [];
+        this.crawlChanges = crawlChanges;
+        SettingsManager.clearExcludeCache();
+        this.statusBarItem.show();
+
+        const indexing = (async () => {
+            try {
+                if (SettingsManager.getUseIgnoreFiles()) {
+                    await loadIgnoreFiles();
+                } else {
+                    clearIgnoreFiles();
+                }
+                // Files checked while the ignore files were loading were checked without them
+                SettingsManager.clearExcludeCache();
+                
+                const excludePattern = SettingsManager.getGlobExcludePattern();
+                const files = await logTiming('Listing workspace files', () =>
+                    Promise.resolve(vscode.workspace.findFiles('**/*', excludePattern))
+                );
+
+                // A newer rebuild was started while we were crawling
+                if (generation !== this.generation) {
+                    return;
+                }
+
+                this.files.clear();
+                files.forEach(uri => this.addFile(uri));
+                crawlChanges.forEach(({ uri, created }) => created ? this.addFile(uri) : this.removeFile(uri));
+                logInfo(`Indexed ${this.files.size} of ${files.length} workspace files, the others are excluded`);
+            } catch (error) {
+                reportError('Could not build the file index', error);
+            } finally {
+                if (generation === this.generation) {
+                    this.indexing = undefined;
+                    this.crawlChanges = undefined;
+                    this.statusBarItem.hide();
+                }
+            }
+        })();
+
+        this.indexing = indexing;
+        return indexing;
+    }
+
+    /**
+     * Rebuild the index once changes stop coming in
+     */
+    private scheduleRebuild(): void {
+        if (this.rebuildTimer) {
+            clearTimeout(this.rebuildTimer);
+        }
+        this.rebuildTimer = setTimeout(() => this.rebuild(), REBUILD_DELAY);
+    }
+
+    private isIgnoreFile(uri: vscode.Uri): boolean {
+        return IGNORE_FILE_NAMES.includes(path.basename(uri.fsPath));
+    }
+
+    /**
+     * Add a file to the index unless it is excluded by the settings or ignore files
+     */
+    private addFile(uri: vscode.Uri): void {
+        if (!SettingsManager.shouldExcludeFile(uri.fsPath)) {
+            this.files.set(uri.toString(), uri);
+        }
+    }
+
+    /**
+     * Remove a file, or all files of a folder, from the index
+     */
+    private removeFile(uri: vscode.Uri): void {
+        // A deleted file is a key of its own, only a deleted folder needs a scan for its files
+        const key = uri.toString();
+        if (this.files.delete(key)) {
+            return;
+        }
+
+        const folderPrefix = key.endsWith('/') ? key : `${key}/`;
+        for (const fileKey of Array.from(this.files.keys())) {
+            if (fileKey.startsWith(folderPrefix)) {
+                this.files.delete(fileKey);
+            }
+        }
+    }
+
+    /**
+     * Handle a created file or folder, folders moved into the workspace are crawled.
+     * Excluded files and folders are skipped before touching the disk, like a new node_modules
+     */
+    private async handleCreate(uri: vscode.Uri): Promise<void> {
+        if (SettingsManager.shouldExcludeFile(uri.fsPath)) {
+            return;
+        }
+        if (this.isIgnoreFile(uri)) {
+            this.scheduleRebuild();
+            return;
+        }
+
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            if (stat.type & vscode.FileType.Directory) {
+                const excludePattern = SettingsManager.getGlobExcludePattern();
+                const files = await vscode.workspace.findFiles(
+                    new vscode.RelativePattern(uri, '**/*'),
+                    excludePattern
+                );
+                files.forEach(file => this.addFile(file));
+                files.forEach(file => this.crawlChanges?.push({ uri: file, created: true }));
+            } else {
+                this.addFile(uri);
+                this.crawlChanges?.push({ uri, created: true });
+            }
+        } catch {
+            // The file was removed again before we got to it
+        }
+    }
+
+    /**
+     * Handle a changed file, only changed ignore rules affect the index.
+     * Ignore files in excluded folders, like those of installed packages, have no say
+     */
+    private handleChange(uri: vscode.Uri): void {
+        if (this.isIgnoreFile(uri) && !SettingsManager.shouldExcludeFile(uri.fsPath)) {
+            this.scheduleRebuild();
+        }
+    }
+
+    /**
+     * Handle a deleted file or folder, a deleted folder takes all its files with it
+     */
+    private handleDelete(uri: vscode.Uri): void {
+        if (this.isIgnoreFile(uri)) {
+            if (!SettingsManager.shouldExcludeFile(uri.fsPath)) {
+                this.scheduleRebuild();
+            }
+            return;
+        }
+
+        this.removeFile(uri);
+        this.crawlChanges?.push({ uri, created: false });
+    }
+
+    public dispose(): void {
+        if (this.rebuildTimer) {
+            clearTimeout(this.rebuildTimer);
+            this.rebuildTimer = undefined;
+        }
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.files.clear();
+    }
+}
@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+import { FrecencyEntry } from '../types';
+import { logError } from '../utils/logUtils';
+
+// Weight of a visit depending on how long ago it happened, like Firefox and telescope-frecency
+const RECENCY_BUCKETS = [
+    { maxAge: 4 * 60 * 60 * 1000, weight: 100 },
+    { maxAge: 24 * 60 * 60 * 1000, weight: 80 },
+    { maxAge: 3 * 24 * 60 * 60 * 1000, weight: 60 },
+    { maxAge: 7 * 24 * 60 * 60 * 1000, weight: 40 },
+    { maxAge: 30 * 24 * 60 * 60 * 1000, weight: 20 },
+    { maxAge: 90 * 24 * 60 * 60 * 1000, weight: 10 }
+];
+
+/**
+ * Tracks how often and how recently files are opened, to rank them by frecency
+ */
+export class FrecencyManager {
+    private entries: Record<string, FrecencyEntry>;
+    private readonly MAX_TIMESTAMPS = 10;
+    private readonly MAX_ENTRIES = 1000;
+    private storage: vscode.Memento;
+
+    constructor(context: vscode.ExtensionContext) {
+        // Frecency is project specific, just like the editor history
+        this.storage = context.workspaceState;
+        this.entries = this.storage.get<Record<string, FrecencyEntry>>('frecency', {});
+    }
+
+    /**
+     * Record that a file was visited
+     */
+    public recordVisit(uri: vscode.Uri): void {
+        const key = uri.toString();
+        const entry = this.entries[key] ?? { count: 0, timestamps: [] };
+
+        entry.count++;
+        entry.timestamps.unshift(Date.now());
+        entry.timestamps.length = Math.min(entry.timestamps.length, this.MAX_TIMESTAMPS);
+        this.entries[key] = entry;
+
+        this.pruneEntries();
+        this.saveEntries();
+    }
+
+    /**
+     * Get the frecency score of a file, 0 when it was never visited
+     */
+    public getScore(uri: vscode.Uri): number {
+        const entry = this.entries[uri.toString()];
+        if (!entry || entry.timestamps.length === 0) {
+            return 0;
+        }
+
+        const now = Date.now();
+        const recencyTotal = entry.timestamps.reduce((total, timestamp) => {
+            const bucket = RECENCY_BUCKETS.find(({ maxAge }) => now - timestamp <= maxAge);
+            return total + (bucket ? bucket.weight : 0);
+        }, 0);
+
+        // Only the latest visits are sampled, scale them up to the full visit count
+        return entry.count * recencyTotal / entry.timestamps.length;
+    }
+
+    /**
+     * Forget the least recently visited files once there are too many entries
+     */
+    private pruneEntries(): void {
+        const keys = Object.keys(this.entries);
+        if (keys.length <= this.MAX_ENTRIES) {
+            return;
+        }
+
+        keys
+            .sort((a, b) => this.entries[a].timestamps[0] - this.entries[b].timestamps[0])
+            .slice(0, keys.length - this.MAX_ENTRIES)
+            .forEach(key => delete this.entries[key]);
+    }
+
+    /**
+     * Save the frecency data to persistent storage
+     */
+    private async saveEntries(): Promise<void> {
+        try {
+            await this.storage.update('frecency', this.entries);
+        } catch (error) {
+            logError('Error saving frecency data', error);
+        }
+    }
+}
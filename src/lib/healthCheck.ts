@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import { FileIndexManager } from './fileIndex';
+import { EditorHistoryManager } from './editorHistory';
+import { SettingsManager } from '../utils/settingsUtils';
+import { findFzf, getFzfVersion, resetFzfDetection } from '../utils/matcherUtils';
+import { writeReport } from '../utils/logUtils';
+
+type HealthStatus = 'OK' | 'INFO' | 'WARNING' | 'ERROR';
+
+/**
+ * Check the search setup, like Neovim's `:checkhealth telescope`, and write the findings to the
+ * output channel: the fuzzy matcher, the file index, what is excluded and the editor history
+ */
+export async function checkHealth(
+    context: vscode.ExtensionContext,
+    fileIndexManager: FileIndexManager,
+    editorHistoryManager: EditorHistoryManager
+): Promise<void> {
+    const report = [`Search Preview ${context.extension.packageJSON.version} health check`];
+    const section = (title: string) => report.push('', `## ${title}`);
+    const add = (status: HealthStatus, message: string) => report.push(`- ${status} ${message}`);
+
+    section('Fuzzy matcher');
+    const matcher = SettingsManager.getMatcher();
+    add('INFO', `searchPreview.search.matcher is ${matcher}`);
+    if (matcher === 'fuzzysort') {
+        add('OK', 'Using the built-in fuzzysort matcher');
+    } else {
+        // Look again, fzf may have been installed since it was first checked
+        resetFzfDetection();
+        const [location, version] = await Promise.all([findFzf(), getFzfVersion()]);
+        const fzfPath = location ?? SettingsManager.getFzfPath();
+        if (version) {
+            add('OK', `fzf ${version} found at ${fzfPath}`);
+        } else {
+            add(matcher === 'fzf' ? 'ERROR' : 'WARNING',
+                `fzf could not be started from ${fzfPath}, the built-in matcher is used instead. ` +
+                'Install fzf or set searchPreview.fzf.path');
+        }
+
+        const extraArgs = SettingsManager.getFzfExtraArgs();
+        if (extraArgs.length > 0) {
+            add('INFO', `fzf is run with the extra arguments: ${extraArgs.join(' ')}`);
+        }
+    }
+
+    section('File index');
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length === 0) {
+        add('WARNING', 'No folder is open, there are no files to search');
+    } else {
+        const files = await fileIndexManager.getFiles();
+        if (files.length > 0) {
+            add('OK', `${files.length} files indexed in ${folders.map(folder => folder.name).join(', ')}`);
+        } else {
+            add('ERROR', 'No files are indexed, check the exclude configuration below or run Search Preview: Rebuild File Index');
+        }
+    }
+
+    section('Exclude configuration');
+    const excludeDirectories = SettingsManager.getExcludeDirectories();
+    const excludePatterns = SettingsManager.getExcludePatterns();
+    add('INFO', `searchPreview.search.excludeDirectories: ${excludeDirectories.join(', ') || 'none'}`);
+    add('INFO', `searchPreview.search.excludePatterns: ${excludePatterns.join(', ') || 'none'}`);
+    add('INFO', SettingsManager.getUseIgnoreFiles()
+        ? '.gitignore and .ignore files are honoured'
+        : '.gitignore and .ignore files are not used (searchPreview.search.useIgnoreFiles)');
+    const sections = [
+        ...(SettingsManager.getUseFilesExclude() ? ['files.exclude'] : []),
+        ...(SettingsManager.getUseSearchExclude() ? ['search.exclude'] : [])
+    ];
+    add('INFO', sections.length > 0
+        ? `${SettingsManager.getWorkspaceExcludePatterns().length} enabled patterns of ${sections.join(' and ')} are honoured`
+        : 'files.exclude and search.exclude are not used');
+
+    section('Editor history');
+    const history = editorHistoryManager.getHistory();
+    const pinnedCount = history.filter(item => item.pinned).length;
+    add('OK', `${history.length} files in the history (at most ${SettingsManager.getHistoryMaxSize()}), ${pinnedCount} pinned`);
+
+    writeReport(report);
+}
@@ -0,0 +1,221 @@
+import * as vscode from 'vscode';
+import { JumpLocation, PersistedJumpList } from '../types';
+import { EditorHistoryManager } from './editorHistory';
+import { setCursorPosition } from '../utils/fileUtils';
+import { logError } from '../utils/logUtils';
+
+// Cursor moves within a file of at least this many lines count as a jump
+const JUMP_MIN_LINES = 10;
+
+// Opening a file and then moving the cursor to the target within this time is a single jump
+const JUMP_SETTLE_TIME = 500;
+
+/**
+ * A vim style jump list: records meaningful jumps between locations, like opening a file
+ * from a picker, going to a definition or a large line jump, and moves back and forth through them
+ */
+export class JumpListManager {
+    private entries: JumpLocation[] = [];
+    // Position in the list, moves when jumping back and forth
+    private index = -1;
+    private readonly MAX_ENTRIES = 100;
+    private storage: vscode.Memento;
+    private editorHistoryManager: EditorHistoryManager;
+    // Where the cursor currently is, the origin of the next jump
+    private currentLocation?: JumpLocation;
+    // When the last jump was recorded, to merge it with the cursor move that follows it
+    private lastJumpTime = 0;
+    // Set while we move through the list ourselves, those moves are not new jumps
+    private navigating = false;
+
+    constructor(context: vscode.ExtensionContext, editorHistoryManager: EditorHistoryManager) {
+        this.editorHistoryManager = editorHistoryManager;
+
+        // The jump list is project specific, just like the editor history
+        this.storage = context.workspaceState;
+        const saved = this.storage.get<PersistedJumpList>('jumpList');
+        if (saved) {
+            this.entries = saved.entries.map(entry => ({ ...entry, uri: vscode.Uri.parse(entry.uri) }));
+            this.index = Math.min(saved.index, this.entries.length - 1);
+        }
+
+        const activeEditor = vscode.window.activeTextEditor;
+        if (activeEditor && this.editorHistoryManager.isTracked(activeEditor.document.uri)) {
+            this.currentLocation = this.getLocation(activeEditor);
+        }
+
+        context.subscriptions.push(
+            vscode.window.onDidChangeActiveTextEditor(editor => this.handleActiveEditorChange(editor)),
+            vscode.window.onDidChangeTextEditorSelection(event => this.handleSelectionChange(event))
+        );
+    }
+
+    /**
+     * Get the recorded jumps, oldest first
+     */
+    public getEntries(): JumpLocation[] {
+        return this.entries;
+    }
+
+    /**
+     * Get the position in the jump list
+     */
+    public getIndex(): number {
+        return this.index;
+    }
+
+    /**
+     * Go back to the location before the last jump
+     */
+    public async jumpBack(): Promise<void> {
+        // Like vim, the position we leave from is remembered so we can jump forward to it again
+        if (this.currentLocation && !this.isSameLocation(this.currentLocation, this.entries[this.index])) {
+            this.entries.splice(this.index + 1);
+            this.entries.push(this.currentLocation);
+            this.index = this.entries.length - 1;
+        }
+
+        await this.jumpTo(-1);
+    }
+
+    /**
+     * Go forward again to the location we jumped back from
+     */
+    public async jumpForward(): Promise<void> {
+        await this.jumpTo(1);
+    }
+
+    /**
+     * Move through the list in the given direction, entries of files that can't be opened anymore are dropped
+     */
+    private async jumpTo(direction: 1 | -1): Promise<void> {
+        while (this.entries[this.index + direction]) {
+            const targetIndex = this.index + direction;
+            const target = this.entries[targetIndex];
+
+            this.navigating = true;
+            try {
+                const editor = await vscode.window.showTextDocument(target.uri, { preview: false });
+                setCursorPosition(editor, target.linePos, target.colPos);
+                this.index = targetIndex;
+                this.currentLocation = target;
+                this.saveEntries();
+                return;
+            } catch (error) {
+                logError(`Error jumping to: ${target.uri.toString()}`, error);
+                this.entries.splice(targetIndex, 1);
+                if (targetIndex < this.index) {
+                    this.index--;
+                }
+            } finally {
+                this.navigating = false;
+            }
+        }
+
+        this.saveEntries();
+    }
+
+    /**
+     * Switching to another file is a jump, unless it is only previewed
+     */
+    private handleActiveEditorChange(editor: vscode.TextEditor | undefined): void {
+        if (!editor || this.navigating || this.editorHistoryManager.isPreviewMode() ||
+            !this.editorHistoryManager.isTracked(editor.document.uri)) {
+            return;
+        }
+
+        const location = this.getLocation(editor);
+        if (this.currentLocation && this.currentLocation.uri.toString() !== location.uri.toString()) {
+            this.recordJump(this.currentLocation, location);
+        }
+        this.currentLocation = location;
+    }
+
+    /**
+     * Large cursor moves that don't come from typing or clicking, like go to definition or go to line, are jumps
+     */
+    private handleSelectionChange(event: vscode.TextEditorSelectionChangeEvent): void {
+        if (this.navigating || this.editorHistoryManager.isPreviewMode() ||
+            event.textEditor !== vscode.window.activeTextEditor ||
+            !this.editorHistoryManager.isTracked(event.textEditor.document.uri)) {
+            return;
+        }
+
+        const location = this.getLocation(event.textEditor);
+        const previousLocation = this.currentLocation;
+        this.currentLocation = location;
+        if (!previousLocation || previousLocation.uri.toString() !== location.uri.toString()) {
+            return;
+        }
+
+        const isUserMove = event.kind === vscode.TextEditorSelectionChangeKind.Keyboard ||
+            event.kind === vscode.TextEditorSelectionChangeKind.Mouse;
+        if (isUserMove) {
+            return;
+        }
+
+        // A file was just opened and the cursor moved to the target, e.g. a definition in another file
+        const lastEntry = this.entries[this.entries.length - 1];
+        const isLatest = this.index === this.entries.length - 1;
+        if (isLatest && Date.now() - this.lastJumpTime < JUMP_SETTLE_TIME &&
+            lastEntry?.uri.toString() === location.uri.toString()) {
+            this.entries[this.index] = location;
+            this.saveEntries();
+            return;
+        }
+
+        if (Math.abs(location.linePos - previousLocation.linePos) >= JUMP_MIN_LINES) {
+            this.recordJump(previousLocation, location);
+        }
+    }
+
+    /**
+     * Add a jump to the list, jumping somewhere new drops the locations we jumped back from
+     */
+    private recordJump(from: JumpLocation, to: JumpLocation): void {
+        this.entries.splice(this.index + 1);
+
+        if (!this.isSameLocation(from, this.entries[this.entries.length - 1])) {
+            this.entries.push(from);
+        }
+        this.entries.push(to);
+
+        if (this.entries.length > this.MAX_ENTRIES) {
+            this.entries.splice(0, this.entries.length - this.MAX_ENTRIES);
+        }
+        this.index = this.entries.length - 1;
+        this.lastJumpTime = Date.now();
+
+        this.saveEntries();
+    }
+
+    private getLocation(editor: vscode.TextEditor): JumpLocation {
+        return {
+            uri: editor.document.uri,
+            linePos: editor.selection.active.line,
+            colPos: editor.selection.active.character
+        };
+    }
+
+    /**
+     * Locations on the same line of the same file are the same jump target
+     */
+    private isSameLocation(a: JumpLocation, b?: JumpLocation): boolean {
+        return !!b && a.uri.toString() === b.uri.toString() && a.linePos === b.linePos;
+    }
+
+    /**
+     * Save the jump list to persistent storage
+     */
+    private async saveEntries(): Promise<void> {
+        try {
+            const jumpListToSave: PersistedJumpList = {
+                index: this.index,
+                entries: this.entries.map(entry => ({ ...entry, uri: entry.uri.toString() }))
+            };
+            await this.storage.update('jumpList', jumpListToSave);
+        } catch (error) {
+            logError('Error saving jump list', error);
+        }
+    }
+}
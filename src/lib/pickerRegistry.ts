@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+import { PickerDefinition } from '../types';
+import { SettingsManager } from '../utils/settingsUtils';
+import { createCommandPicker } from '../utils/commandUtils';
+
+/**
+ * Keeps the pickers registered by other extensions through the API
+ * and the ones defined in the searchPreview.customPickers setting
+ */
+export class PickerRegistry implements vscode.Disposable {
+    private registeredPickers = new Map<string, PickerDefinition>();
+    private settingsPickers = new Map<string, PickerDefinition>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.loadSettingsPickers();
+
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('searchPreview.customPickers')) {
+                this.loadSettingsPickers();
+            }
+        }));
+    }
+
+    /**
+     * Add a picker, a picker registered with the id of an existing one replaces it
+     * @returns Disposable that removes the picker again
+     */
+    public register(picker: PickerDefinition): vscode.Disposable {
+        this.registeredPickers.set(picker.id, picker);
+
+        return new vscode.Disposable(() => {
+            if (this.registeredPickers.get(picker.id) === picker) {
+                this.registeredPickers.delete(picker.id);
+            }
+        });
+    }
+
+    /**
+     * Get a picker by its id, pickers registered through the API take precedence over the setting
+     */
+    public getPicker(id: string): PickerDefinition | undefined {
+        return this.registeredPickers.get(id) ?? this.settingsPickers.get(id);
+    }
+
+    /**
+     * Get all pickers, for choosing one to show
+     */
+    public getPickers(): PickerDefinition[] {
+        const pickers = new Map([...this.settingsPickers, ...this.registeredPickers]);
+        return Array.from(pickers.values());
+    }
+
+    private loadSettingsPickers(): void {
+        this.settingsPickers = new Map();
+        for (const config of SettingsManager.getCustomPickers()) {
+            if (config.id && config.command) {
+                this.settingsPickers.set(config.id, createCommandPicker(config));
+            }
+        }
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
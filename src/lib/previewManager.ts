@@ -1,15 +1,30 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { SearchQuickPickItem } from '../types';
-import { setCursorPosition } from '../utils/fileUtils';
+import { EditorLayoutSnapshot, SearchQuickPickItem } from '../types';
+import { getItemUri, setCursorPosition } from '../utils/fileUtils';
+import { activateTab } from '../utils/tabUtils';
 import { DecorationManager } from '../utils/decorationUtils';
+import { SettingsManager } from '../utils/settingsUtils';
+import { checkPreview } from '../utils/previewUtils';
+import { captureLayout, restoreLayout } from '../utils/layoutUtils';
+import { logError } from '../utils/logUtils';
 import { EditorHistoryManager } from './editorHistory';
+import { PreviewPlaceholderProvider } from './previewPlaceholder';
 
 export class PreviewManager {
     private lastPreviewEditor?: vscode.TextEditor;
     private decorationManager: DecorationManager;
     private editorHistoryManager?: EditorHistoryManager;
-    private previousActiveEditor?: vscode.TextEditor;
+    // The editor groups as they were when the picker opened, restored when it is cancelled
+    private layoutSnapshot?: EditorLayoutSnapshot;
+    // Editor group previews are shown in while the picker is open
+    private previewColumn?: vscode.ViewColumn;
+    // Whether that group was created for the preview, and has to be closed afterwards
+    private createdPreviewGroup = false;
+    // Incremented on every preview so a slower, outdated preview can't replace a newer one
+    private peekGeneration = 0;
+    // Putting the editors back after the picker closed, the next picker waits for it
+    private restoringLayout?: Promise<void>;
     
     constructor(editorHistoryManager?: EditorHistoryManager) {
         this.decorationManager = new DecorationManager();
@@ -17,46 +32,90 @@ export class PreviewManager {
     }
     
     /**
-     * Enable or disable preview mode to prevent files from being added to history
+     * Enable or disable preview mode to prevent files from being added to history.
+     * Disabling it resolves once the editor layout is restored
      */
-    public setPreviewMode(enabled: boolean): void {
+    public async setPreviewMode(enabled: boolean): Promise<void> {
         if (this.editorHistoryManager) {
             this.editorHistoryManager.setPreviewMode(enabled);
         }
         
         if (enabled) {
-            // When entering preview mode, store active editor
-            this.previousActiveEditor = vscode.window.activeTextEditor;
+            // When entering preview mode, remember the layout to return to, not one halfway restored
+            await this.restoringLayout;
+            this.layoutSnapshot = captureLayout();
         } else {
-            // When exiting preview mode, restore active editor
-            this.restoreActiveEditor();
+            // Previews that are still loading would undo the restore
+            this.peekGeneration++;
+            this.restoringLayout = this.restoreEditorLayout();
+            await this.restoringLayout;
         }
     }
     
     /**
-     * Restore the active editor that was open before preview started
+     * Get the editor group to preview in, per the searchPreview.preview.location setting.
+     * The first preview decides, later previews reuse the same group.
      */
-    private async restoreActiveEditor(): Promise<void> {
-        if (this.previousActiveEditor) {
+    private getPreviewColumn(): vscode.ViewColumn {
+        if (this.previewColumn === undefined) {
+            const activeColumn = vscode.window.tabGroups.activeTabGroup.viewColumn;
+            const groupCount = vscode.window.tabGroups.all.length;
+            
+            switch (SettingsManager.getPreviewLocation()) {
+                case 'beside':
+                    // The group right of the active one, VS Code creates it if there is none
+                    this.previewColumn = activeColumn + 1;
+                    break;
+                case 'dedicatedColumn':
+                    // Always a new group after the last one
+                    this.previewColumn = groupCount + 1;
+                    break;
+                default:
+                    this.previewColumn = activeColumn;
+            }
+            this.createdPreviewGroup = this.previewColumn > groupCount;
+        }
+        return this.previewColumn;
+    }
+    
+    /**
+     * Close the editor group created for previews, leaving the original layout untouched
+     */
+    private async closePreviewGroup(): Promise<void> {
+        const previewColumn = this.previewColumn;
+        const createdPreviewGroup = this.createdPreviewGroup;
+        this.previewColumn = undefined;
+        this.createdPreviewGroup = false;
+        
+        if (!createdPreviewGroup) {
+            return;
+        }
+        
+        const group = vscode.window.tabGroups.all.find(tabGroup => tabGroup.viewColumn === previewColumn);
+        if (group) {
             try {
-                await vscode.window.showTextDocument(
-                    this.previousActiveEditor.document, 
-                    this.previousActiveEditor.viewColumn
-                );
-                
-                // Restore cursor position
-                if (vscode.window.activeTextEditor) {
-                    vscode.window.activeTextEditor.selection = this.previousActiveEditor.selection;
-                    vscode.window.activeTextEditor.revealRange(
-                        this.previousActiveEditor.selection,
-                        vscode.TextEditorRevealType.Default
-                    );
-                }
-                
-                this.previousActiveEditor = undefined;
+                await vscode.window.tabGroups.close(group, true);
             } catch (error) {
-                // Ignore errors restoring the editor
-                console.log('Error restoring previous editor', error);
+                logError('Error closing preview group', error);
+            }
+        }
+    }
+    
+    /**
+     * Close the preview group and, unless a file or tab was opened from the picker,
+     * put the editors back exactly as they were before previewing
+     */
+    private async restoreEditorLayout(): Promise<void> {
+        const snapshot = this.layoutSnapshot;
+        this.layoutSnapshot = undefined;
+        
+        await this.closePreviewGroup();
+        if (snapshot) {
+            try {
+                await restoreLayout(snapshot);
+            } catch (error) {
+                // Closing the picker goes on, the error is only logged
+                logError('Error restoring editor layout', error);
             }
         }
     }
@@ -73,35 +132,62 @@ export class PreviewManager {
         if (!currentItem.data) {
             return;
         }
+        const generation = ++this.peekGeneration;
 
-        const { filePath, linePos, colPos } = currentItem.data;
+        const { filePath, linePos, colPos, range, diffUri, occurrences } = currentItem.data;
+        const uri = getItemUri(currentItem.data);
         
         try {
             // Register this file as being previewed
             if (this.editorHistoryManager) {
-                this.editorHistoryManager.addPreviewedFile(filePath);
+                this.editorHistoryManager.addPreviewedFile(uri);
             }
             
             // Use VS Code's native open command to handle all file types appropriately
-            const uri = vscode.Uri.file(filePath);
-            const success = await vscode.commands.executeCommand('vscode.open', uri, {
-                preview: true,
-                preserveFocus: true,
-                viewColumn: vscode.ViewColumn.Active
-            });
+            const viewColumn = currentItem.data.viewColumn ?? this.getPreviewColumn();
+            const options = { preview: true, preserveFocus: true, viewColumn };
+            if (diffUri) {
+                const title = `${path.basename(filePath)} (HEAD ↔ Working Tree)`;
+                await vscode.commands.executeCommand('vscode.diff', diffUri, uri, title, options);
+                // The diff highlights the changes already
+                return;
+            }
             
-            // For text files, VS Code will create a text editor
-            const editor = vscode.window.activeTextEditor;
-            if (editor && editor.document.uri.fsPath === filePath) {
+            // Large, binary and slow files would freeze the editor, show what they are instead
+            const check = await checkPreview(uri);
+            if (generation !== this.peekGeneration) {
+                return;
+            }
+            if (check.skipReason) {
+                const placeholderUri = PreviewPlaceholderProvider.createUri(uri, check);
+                await vscode.commands.executeCommand('vscode.open', placeholderUri, options);
+                return;
+            }
+            
+            await vscode.commands.executeCommand('vscode.open', uri, options);
+            
+            // For text files, VS Code will create a text editor. It is only the active
+            // editor when previewing in the active group, so look it up by group
+            const editor = vscode.window.visibleTextEditors.find(visibleEditor =>
+                visibleEditor.viewColumn === viewColumn && visibleEditor.document.uri.toString() === uri.toString()
+            );
+            if (editor) {
                 this.lastPreviewEditor = editor;
                 
-                // Position cursor and highlight line
+                // Position cursor and highlight the range or line
                 setCursorPosition(editor, linePos, colPos);
-                this.decorationManager.highlightLine(editor, linePos);
+                if (range) {
+                    this.decorationManager.highlightRange(editor, range);
+                } else {
+                    this.decorationManager.highlightLine(editor, linePos);
+                }
+                if (occurrences) {
+                    this.decorationManager.highlightOccurrences(editor, occurrences);
+                }
             }
         } catch (error) {
             // Handle any errors
-            console.log(`Error previewing file: ${filePath}`, error);
+            logError(`Error previewing file: ${filePath}`, error);
         }
     }
     
@@ -114,13 +200,15 @@ export class PreviewManager {
     
     /**
      * Open the selected file
+     * @param viewColumn Editor group to open the file in, by default the group it is open in or the active one
      */
-    public async openSelectedFile(data: SearchQuickPickItem['data']): Promise<void> {
+    public async openSelectedFile(data: SearchQuickPickItem['data'], viewColumn?: vscode.ViewColumn): Promise<void> {
         if (!data) {
             return;
         }
         
         const { filePath, linePos, colPos } = data;
+        const uri = getItemUri(data);
         
         try {
             // When a file is explicitly opened, turn off preview mode
@@ -128,27 +216,41 @@ export class PreviewManager {
             if (this.editorHistoryManager) {
                 this.editorHistoryManager.setPreviewMode(false);
                 // Force add this file to history
-                this.editorHistoryManager.forceAddToHistory(filePath, linePos, colPos);
+                this.editorHistoryManager.forceAddToHistory(uri, linePos, colPos);
             }
             
             // Let VS Code determine how to open the file based on its type
-            const uri = vscode.Uri.file(filePath);
             await vscode.commands.executeCommand('vscode.open', uri, {
                 preview: false,
-                preserveFocus: false
+                preserveFocus: false,
+                viewColumn: viewColumn ?? data.viewColumn
             });
             
             // For text files, VS Code will create a text editor and we can set the cursor
             const editor = vscode.window.activeTextEditor;
-            if (editor && editor.document.uri.fsPath === filePath) {
+            if (editor && editor.document.uri.toString() === uri.toString()) {
                 setCursorPosition(editor, linePos, colPos);
             }
             
-            // Clear the previous active editor reference since we're opening a new file
-            this.previousActiveEditor = undefined;
+            // Keep the layout with the opened file instead of restoring it when the picker closes
+            this.layoutSnapshot = undefined;
         } catch (error) {
             // Handle errors gracefully
             vscode.window.showErrorMessage(`Could not open file: ${path.basename(filePath)}`);
         }
     }
-} 
\ No newline at end of file
+    
+    /**
+     * Switch to an open tab that has no document to open, like a webview or terminal
+     */
+    public async openTab(tab: vscode.Tab): Promise<void> {
+        try {
+            // The user picked an editor, don't switch back when the picker closes
+            this.editorHistoryManager?.setPreviewMode(false);
+            this.layoutSnapshot = undefined;
+            await activateTab(tab);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Could not switch to: ${tab.label}`);
+        }
+    }
+}
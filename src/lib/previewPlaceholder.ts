@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getRelativePath } from '../utils/fileUtils';
+import { formatFileSize, PreviewCheck, PreviewSkipReason, readFileHead } from '../utils/previewUtils';
+import { logError } from '../utils/logUtils';
+
+// Number of lines of a large file shown in its placeholder
+const PLACEHOLDER_LINES = 100;
+
+// The lines are taken from this much of the start of the file, long lines may leave fewer
+const PLACEHOLDER_BYTES = 64 * 1024;
+
+const SKIP_MESSAGES: Record<PreviewSkipReason, string> = {
+    tooLarge: 'File is larger than the preview size limit (searchPreview.preview.maxFileSize)',
+    binary: 'File appears to be binary',
+    slow: 'File system did not respond in time',
+    deleted: 'File was deleted and has no version in HEAD'
+};
+
+interface PlaceholderQuery extends PreviewCheck {
+    uri: string;
+}
+
+/**
+ * Read-only documents shown instead of files that are too large, binary or too slow to preview,
+ * or that were deleted. They describe the file and show its first lines, accepting the item
+ * still opens the real file
+ */
+export class PreviewPlaceholderProvider implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'search-preview';
+
+    /**
+     * Get the placeholder document of a file. It keeps the file's name, so the tab
+     * title and the language of the first lines match the file
+     */
+    public static createUri(uri: vscode.Uri, check: PreviewCheck): vscode.Uri {
+        const query: PlaceholderQuery = { ...check, uri: uri.toString() };
+        return vscode.Uri.from({
+            scheme: PreviewPlaceholderProvider.scheme,
+            path: `/${path.basename(uri.path)}`,
+            query: JSON.stringify(query)
+        });
+    }
+
+    public async provideTextDocumentContent(placeholderUri: vscode.Uri): Promise<string> {
+        const { uri: uriString, skipReason, size, mtime }: PlaceholderQuery = JSON.parse(placeholderUri.query);
+        const uri = vscode.Uri.parse(uriString);
+
+        const lines = [
+            getRelativePath(uri),
+            ''
+        ];
+        if (size !== undefined) {
+            lines.push(`Size:     ${formatFileSize(size)}`);
+        }
+        if (mtime !== undefined) {
+            lines.push(`Modified: ${new Date(mtime).toLocaleString()}`);
+        }
+        lines.push(`Not previewed: ${skipReason ? SKIP_MESSAGES[skipReason] : 'unknown reason'}`);
+        if (skipReason !== 'deleted') {
+            lines.push('Accept the item to open the file anyway');
+        }
+
+        // Only local files can be read partially, other file systems would load the whole file
+        if (skipReason === 'tooLarge' && uri.scheme === 'file') {
+            try {
+                const head = (await readFileHead(uri, PLACEHOLDER_BYTES)).toString('utf8');
+                lines.push('', `First ${PLACEHOLDER_LINES} lines:`, '');
+                lines.push(...head.split(/\r?\n/).slice(0, PLACEHOLDER_LINES));
+            } catch (error) {
+                logError(`Error reading file: ${uri.toString()}`, error);
+            }
+        }
+
+        return lines.join('\n');
+    }
+}
@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { PickerMode } from '../types';
+import { logError } from '../utils/logUtils';
+
+/**
+ * Remembers the queries typed in each picker mode, so they can be recalled later
+ */
+export class QueryHistoryManager {
+    private queries: Partial<Record<PickerMode, string[]>>;
+    private readonly MAX_QUERIES = 50;
+    private storage: vscode.Memento;
+
+    constructor(context: vscode.ExtensionContext) {
+        // Queries are project specific, just like the editor history
+        this.storage = context.workspaceState;
+        this.queries = this.storage.get<Partial<Record<PickerMode, string[]>>>('queryHistory', {});
+    }
+
+    /**
+     * Get the queries of a picker mode, most recent first
+     */
+    public getQueries(mode: PickerMode): string[] {
+        return this.queries[mode] ?? [];
+    }
+
+    /**
+     * Record a query, a query that was used before moves to the front
+     */
+    public addQuery(mode: PickerMode, query: string): void {
+        if (!query.trim()) {
+            return;
+        }
+
+        const queries = this.getQueries(mode).filter(existing => existing !== query);
+        queries.unshift(query);
+        queries.length = Math.min(queries.length, this.MAX_QUERIES);
+        this.queries[mode] = queries;
+
+        this.saveQueries();
+    }
+
+    /**
+     * Save the query history to persistent storage
+     */
+    private async saveQueries(): Promise<void> {
+        try {
+            await this.storage.update('queryHistory', this.queries);
+        } catch (error) {
+            logError('Error saving query history', error);
+        }
+    }
+}
@@ -1,68 +1,519 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { SearchQuickPickItem } from '../types';
+import {
+    ContentMatch,
+    EditorHistoryItem,
+    FileMatch,
+    GitChange,
+    JumpLocation,
+    PickerDefinition,
+    PickerEntry,
+    PickerMode,
+    SearchQuickPickItem,
+    SymbolEntry
+} from '../types';
 import { EditorHistoryManager } from './editorHistory';
 import { PreviewManager } from './previewManager';
-import { fuzzySearchFiles } from '../utils/searchUtils';
-import { getFileLocation } from '../utils/fileUtils';
+import { PreviewPlaceholderProvider } from './previewPlaceholder';
+import { FileIndexManager } from './fileIndex';
+import { FrecencyManager } from './frecency';
+import { JumpListManager } from './jumpList';
+import { QueryHistoryManager } from './queryHistory';
+import { PickerRegistry } from './pickerRegistry';
+import { ACTIONS_BUTTON, ActionsManager } from './actionsManager';
+import {
+    buildOccurrencePattern,
+    filterFilesByDirectory,
+    filterFilesByFolder,
+    fuzzySearchFiles,
+    fuzzySearchItems,
+    getDirectories,
+    parseFolderQuery,
+    parseLineQuery
+} from '../utils/searchUtils';
+import { flattenDocumentSymbols, getSymbolIcon, toSymbolEntry } from '../utils/symbolUtils';
+import { searchFileContents } from '../utils/grepUtils';
+import { getChangedFiles } from '../utils/gitUtils';
+import { getTabKind, getTabUri } from '../utils/tabUtils';
+import { rankByFrecency } from '../utils/rankingUtils';
+import {
+    escapeRegExp,
+    getFileLocation,
+    getItemUri,
+    getRelativePath,
+    getWorkspaceFolderName
+} from '../utils/fileUtils';
 import { SettingsManager } from '../utils/settingsUtils';
+import { logError, logTiming, reportError } from '../utils/logUtils';
+
+// How many fuzzy matches frecency ranking gets to re-order, as a multiple of maxResults
+const FRECENCY_POOL_FACTOR = 5;
+
+// Item buttons of the recent editors picker to manage the history
+const PIN_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('pin'),
+    tooltip: 'Pin to Top'
+};
+const UNPIN_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('pinned'),
+    tooltip: 'Unpin'
+};
+const REMOVE_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('close'),
+    tooltip: 'Remove from History'
+};
+
+// Title bar buttons of the git changes picker to move through the changes of the previewed diff
+const PREVIOUS_CHANGE_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('arrow-up'),
+    tooltip: 'Previous Change'
+};
+const NEXT_CHANGE_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('arrow-down'),
+    tooltip: 'Next Change'
+};
+
+// Title bar button of a picker scoped to a folder, to search the whole workspace again
+const WIDEN_SCOPE_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('root-folder'),
+    tooltip: 'Search Whole Workspace'
+};
+
+// Item buttons of the open editors picker, unsaved tabs show a dot like their tab does
+const CLOSE_TAB_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('close'),
+    tooltip: 'Close'
+};
+const CLOSE_UNSAVED_TAB_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('circle-filled'),
+    tooltip: 'Close (Unsaved)'
+};
+const CLOSE_OTHER_TABS_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('close-all'),
+    tooltip: 'Close Others in Group'
+};
+
+/**
+ * Everything needed to reopen a picker where it was left
+ */
+export interface PickerState {
+    mode: PickerMode;
+    value: string;
+    items: readonly SearchQuickPickItem[];
+    activeItem?: SearchQuickPickItem;
+    selectedItems: readonly SearchQuickPickItem[];
+    scope?: vscode.Uri;
+}
+
+// The modes that are built into the provider, the others show a registered picker
+type BuiltInMode = Exclude<PickerMode, `custom:${string}`>;
+
+/**
+ * How a mode of the picker fills it, every built-in mode and every registered picker has one
+ */
+interface ModeHandler {
+    placeholder: string;
+    // Files are previewed unless a registered picker opts out
+    previewer?: 'file' | 'none';
+    // Set up what the picker of this mode has on top of the defaults, like title bar buttons
+    setup?(quickPick: vscode.QuickPick<SearchQuickPickItem>): void;
+    // Load the items the picker shows before anything is typed
+    load(quickPick: vscode.QuickPick<SearchQuickPickItem>): Promise<void>;
+    // Update the items for the query
+    search(quickPick: vscode.QuickPick<SearchQuickPickItem>, value: string): Promise<void>;
+}
+
+/**
+ * Get the state to resume a closed picker with, nothing when its query was handed to the command palette
+ */
+export function getPickerState(
+    mode: PickerMode,
+    quickPick: vscode.QuickPick<SearchQuickPickItem>,
+    scope?: vscode.Uri
+): PickerState | undefined {
+    if (mode === 'standard' && quickPick.value.startsWith('>')) {
+        return undefined;
+    }
+    return {
+        mode,
+        value: quickPick.value,
+        items: quickPick.items,
+        activeItem: quickPick.activeItems[0],
+        selectedItems: quickPick.selectedItems,
+        scope
+    };
+}
 
 export class QuickOpenProvider {
     private editorHistoryManager: EditorHistoryManager;
+    private fileIndexManager: FileIndexManager;
+    private frecencyManager: FrecencyManager;
+    private jumpListManager: JumpListManager;
+    private queryHistoryManager: QueryHistoryManager;
+    private pickerRegistry: PickerRegistry;
     private previewManager: PreviewManager;
+    private actionsManager: ActionsManager;
+    // The picker that is currently open, for commands triggered by keybindings
+    private activeQuickPick?: vscode.QuickPick<SearchQuickPickItem>;
+    // Mode of the open picker, to recall the queries of that mode
+    private activeMode?: PickerMode;
+    // Position in the query history while cycling through it, -1 is the query being typed
+    private queryHistoryIndex = -1;
+    // The query that was being typed before cycling through the query history
+    private queryDraft = '';
+    // The last picker that was closed, for resuming it
+    private lastPickerState?: PickerState;
+    // Changed files listed by the git changes picker, loaded once when it opens
+    private gitChanges: GitChange[] = [];
+    // Folders listed by the directory picker, derived from the file index when it opens
+    private directories: vscode.Uri[] = [];
+    // Folder the file search of the standard picker or the live grep is restricted to
+    private searchScope?: vscode.Uri;
+    // Entries of a registered picker that is filtered by the fuzzy matcher, loaded once when it opens
+    private pickerEntries: PickerEntry[] = [];
     // Debounce timer for search input
     private searchDebounceTimer?: NodeJS.Timeout;
+    // Debounce timer for previewing the active item, moving quickly through results only previews where it stops
+    private previewDebounceTimer?: NodeJS.Timeout;
+    // Cancels the search that is currently running when a newer one starts
+    private searchCancellation?: vscode.CancellationTokenSource;
+    // File of the editor that was active when the picker opened, for proximity ranking and `:line` queries
+    private originUri?: vscode.Uri;
+    // Directory of the editor that was active when the picker opened, for proximity ranking
+    private originDirectory?: string;
+    // File shown in the preview, `@` queries list its symbols
+    private previewedUri?: vscode.Uri;
+    
+    // How each built-in mode loads and searches, registered pickers get theirs from their definition
+    private readonly modeHandlers: Record<BuiltInMode, ModeHandler> = {
+        standard: {
+            placeholder: 'Go to file with preview (file:line, @symbol, >command)',
+            load: quickPick => this.handleStandardSearch(quickPick, ''),
+            search: (quickPick, value) => this.handleStandardQuery(quickPick, value)
+        },
+        recent: {
+            placeholder: 'Search open editors by most recently used',
+            load: quickPick => this.loadRecentEditorsList(quickPick),
+            // Short queries match almost everything, the list is restored instead
+            search: (quickPick, value) => value.length < 2
+                ? this.loadRecentEditorsList(quickPick)
+                : this.handleRecentEditorsSearch(quickPick, value)
+        },
+        grep: {
+            placeholder: 'Search file contents with preview',
+            // Nothing to show until there is something to search for
+            load: async () => {},
+            search: async (quickPick, value) => {
+                if (value.length < 2) {
+                    // The search in flight was cancelled, it won't clear the busy state itself
+                    quickPick.items = [];
+                    quickPick.busy = false;
+                    return;
+                }
+                await this.handleContentSearch(quickPick, value);
+            }
+        },
+        // Symbol providers do their own matching, every query goes straight to them
+        symbols: {
+            placeholder: 'Go to symbol in workspace with preview',
+            load: quickPick => this.handleWorkspaceSymbolSearch(quickPick, ''),
+            search: (quickPick, value) => this.handleWorkspaceSymbolSearch(quickPick, value)
+        },
+        // The jump list, the changed files and the open editors are short lists,
+        // every query including an empty one filters all of them
+        jumps: {
+            placeholder: 'Search the jump list, most recent jumps first',
+            load: quickPick => this.handleJumpListSearch(quickPick, ''),
+            search: (quickPick, value) => this.handleJumpListSearch(quickPick, value)
+        },
+        git: {
+            placeholder: 'Search changed files with diff preview',
+            setup: quickPick => {
+                // The compare editor commands act on the active group, which only has the diff
+                // when previewing in it
+                if (SettingsManager.getPreviewLocation() === 'active') {
+                    quickPick.buttons = [PREVIOUS_CHANGE_BUTTON, NEXT_CHANGE_BUTTON];
+                }
+            },
+            load: async quickPick => {
+                this.gitChanges = await getChangedFiles();
+                await this.handleGitChangesSearch(quickPick, '');
+            },
+            search: (quickPick, value) => this.handleGitChangesSearch(quickPick, value)
+        },
+        editors: {
+            placeholder: 'Search open editors by editor group',
+            load: quickPick => this.handleOpenEditorsSearch(quickPick, ''),
+            search: (quickPick, value) => this.handleOpenEditorsSearch(quickPick, value)
+        },
+        directories: {
+            placeholder: 'Search folders, then search in, open a terminal in or add a file to the folder',
+            setup: quickPick => {
+                // Revealing a folder focuses the Explorer, which must not close the picker
+                quickPick.ignoreFocusOut = true;
+            },
+            load: async quickPick => {
+                this.directories = getDirectories(await this.fileIndexManager.getFiles());
+                await this.handleDirectorySearch(quickPick, '');
+            },
+            search: (quickPick, value) => this.handleDirectorySearch(quickPick, value)
+        }
+    };
     
-    constructor(editorHistoryManager: EditorHistoryManager) {
+    constructor(
+        editorHistoryManager: EditorHistoryManager,
+        fileIndexManager: FileIndexManager,
+        frecencyManager: FrecencyManager,
+        jumpListManager: JumpListManager,
+        queryHistoryManager: QueryHistoryManager,
+        pickerRegistry: PickerRegistry
+    ) {
         this.editorHistoryManager = editorHistoryManager;
+        this.fileIndexManager = fileIndexManager;
+        this.frecencyManager = frecencyManager;
+        this.jumpListManager = jumpListManager;
+        this.queryHistoryManager = queryHistoryManager;
+        this.pickerRegistry = pickerRegistry;
         this.previewManager = new PreviewManager(editorHistoryManager);
+        this.actionsManager = new ActionsManager(this.previewManager);
+    }
+    
+    /**
+     * Show the actions menu for the selected items of the open picker, or its active item
+     */
+    public async showActionsForActivePicker(): Promise<void> {
+        if (this.activeQuickPick) {
+            await this.showActions(this.activeQuickPick);
+        }
+    }
+    
+    /**
+     * Reopen the last closed picker with its query, results and active item
+     */
+    public async resume(): Promise<void> {
+        if (!this.lastPickerState) {
+            vscode.window.showInformationMessage('There is no search to resume');
+            return;
+        }
+        await this.show(this.lastPickerState.mode, this.lastPickerState);
+    }
+    
+    /**
+     * Show a picker registered through the API or the customPickers setting, asking which one when no id is given
+     */
+    public async showCustomPicker(id?: string): Promise<void> {
+        if (!id) {
+            const pickers = this.pickerRegistry.getPickers();
+            if (pickers.length === 0) {
+                vscode.window.showInformationMessage('There are no custom pickers, add them to the searchPreview.customPickers setting');
+                return;
+            }
+            
+            const choice = await vscode.window.showQuickPick(
+                pickers.map(picker => ({ label: picker.title, description: picker.id, id: picker.id })),
+                { placeHolder: 'Select a picker' }
+            );
+            id = choice?.id;
+        }
+        
+        if (id) {
+            await this.show(`custom:${id}`);
+        }
+    }
+    
+    /**
+     * Get how a mode fills the picker, undefined for a registered picker that doesn't exist (anymore)
+     */
+    private getModeHandler(mode: PickerMode): ModeHandler | undefined {
+        if (!mode.startsWith('custom:')) {
+            return this.modeHandlers[mode as BuiltInMode];
+        }
+        
+        const picker = this.getRegisteredPicker(mode);
+        if (!picker) {
+            return undefined;
+        }
+        return {
+            placeholder: picker.title,
+            previewer: picker.previewer,
+            load: async quickPick => {
+                this.pickerEntries = picker.matcher === 'source' ? [] : await this.loadPickerEntries(picker);
+                await this.handleRegisteredPickerSearch(quickPick, picker, '');
+            },
+            search: (quickPick, value) => this.handleRegisteredPickerSearch(quickPick, picker, value)
+        };
+    }
+    
+    /**
+     * Get the registered picker a mode shows, undefined for the built-in modes
+     */
+    private getRegisteredPicker(mode?: PickerMode): PickerDefinition | undefined {
+        return mode?.startsWith('custom:') ? this.pickerRegistry.getPicker(mode.slice('custom:'.length)) : undefined;
+    }
+    
+    /**
+     * Replace the query of the open picker with an earlier (direction 1) or later (direction -1)
+     * query from the history of its mode
+     */
+    public cycleQueryHistory(direction: 1 | -1): void {
+        if (!this.activeQuickPick || !this.activeMode) {
+            return;
+        }
+        
+        const queries = this.queryHistoryManager.getQueries(this.activeMode);
+        const index = this.queryHistoryIndex + direction;
+        if (index < -1 || index >= queries.length) {
+            return;
+        }
+        
+        // Keep what was typed, cycling back past the most recent query restores it like a shell does
+        if (this.queryHistoryIndex === -1) {
+            this.queryDraft = this.activeQuickPick.value;
+        }
+        this.queryHistoryIndex = index;
+        
+        // Changing the value runs the search through onDidChangeValue
+        this.activeQuickPick.value = index === -1 ? this.queryDraft : queries[index];
+    }
+    
+    /**
+     * Get the items an action applies to: the selected items when multi-select is on and
+     * the item is part of the selection, otherwise just the item (or the active one)
+     */
+    private getTargetItems(
+        quickPick: vscode.QuickPick<SearchQuickPickItem>,
+        item?: SearchQuickPickItem
+    ): SearchQuickPickItem[] {
+        const selectedItems = quickPick.canSelectMany ? quickPick.selectedItems : [];
+        if (selectedItems.length > 0 && (!item || selectedItems.includes(item))) {
+            return [...selectedItems];
+        }
+        
+        const target = item ?? quickPick.activeItems[0];
+        return target ? [target] : [];
+    }
+    
+    /**
+     * Close the picker and show the actions menu for its target items
+     */
+    private async showActions(
+        quickPick: vscode.QuickPick<SearchQuickPickItem>,
+        item?: SearchQuickPickItem
+    ): Promise<void> {
+        const items = this.getTargetItems(quickPick, item);
+        const pickerActions = this.getRegisteredPicker(this.activeMode)?.actions;
+        
+        // Only one quick input can be open at a time, the actions menu replaces the picker
+        quickPick.hide();
+        await this.actionsManager.showActions(items, pickerActions);
     }
     
     /**
      * Main function to show quick open with preview, with different modes
-     * @param mode 'standard' for normal quick open, 'recent' for most recently used editors
+     * @param mode 'standard' for normal quick open, 'recent' for most recently used editors,
+     * 'grep' for live search in file contents, 'symbols' for workspace symbols, 'jumps' for the jump list,
+     * 'git' for changed files with a diff preview, 'editors' for the open tabs of all editor groups,
+     * 'directories' for the folders of the workspace,
+     * 'custom:<id>' for a picker registered through the API or the customPickers setting
+     * @param resumeState Query, results and active item of a closed picker to reopen
+     * @param scope Folder to restrict the file search of the standard picker or the live grep to
      */
-    public async show(mode: 'standard' | 'recent'): Promise<void> {
+    public async show(mode: PickerMode, resumeState?: PickerState, scope = resumeState?.scope): Promise<void> {
+        const handler = this.getModeHandler(mode);
+        if (!handler) {
+            vscode.window.showErrorMessage(`There is no picker with id: ${mode.slice('custom:'.length)}`);
+            return;
+        }
+        
         const quickPick = vscode.window.createQuickPick<SearchQuickPickItem>();
         
-        // Force VSCode to show everything
-        quickPick.matchOnDescription = false;
+        // Force VSCode to show everything, items are always shown so matching only highlights the query
+        quickPick.matchOnDescription = true;
         quickPick.matchOnDetail = true;
         (quickPick as any).sortByLabel = false;
+        quickPick.canSelectMany = SettingsManager.getCanSelectMany();
         
-        // Set placeholder text based on mode
-        if (mode === 'standard') {
-            quickPick.placeholder = 'Go to file with preview';
-        } else {
-            quickPick.placeholder = 'Search open editors by most recently used';
+        // Opening a picker hides the one that is open, whose pending search and preview are stale now.
+        // The layout from before that picker is kept, it is the one to return to when this picker closes
+        const replacesPicker = this.activeQuickPick !== undefined;
+        if (replacesPicker) {
+            this.stopPendingWork();
+        }
+        
+        // Let keybindings target this picker while it is open
+        this.activeQuickPick = quickPick;
+        this.activeMode = mode;
+        this.queryHistoryIndex = -1;
+        vscode.commands.executeCommand('setContext', 'searchPreview.pickerVisible', true);
+        
+        quickPick.placeholder = handler.placeholder;
+        handler.setup?.(quickPick);
+        
+        // Only searching files and their contents can be scoped
+        this.searchScope = mode === 'standard' || mode === 'grep' ? scope : undefined;
+        if (this.searchScope) {
+            const scopeLabel = getRelativePath(this.searchScope) || path.basename(this.searchScope.fsPath);
+            quickPick.title = mode === 'grep' ? `Contents of ${scopeLabel}` : `Files in ${scopeLabel}`;
+            quickPick.buttons = [WIDEN_SCOPE_BUTTON];
         }
         
         quickPick.busy = true;
         
-        // Enable preview mode to prevent files from being added to history during preview
-        this.previewManager.setPreviewMode(true);
+        // Enable preview mode to prevent files from being added to history during preview.
+        // It waits for a picker that just closed to restore the layout, so that layout is the one captured
+        if (!replacesPicker) {
+            await this.previewManager.setPreviewMode(true);
+        }
+        
+        // Remember where we started before previews start changing the active editor
+        const originEditor = vscode.window.activeTextEditor;
+        this.originUri = originEditor?.document.uri.scheme === 'file'
+            ? originEditor.document.uri
+            : undefined;
+        this.originDirectory = this.originUri ? path.dirname(this.originUri.fsPath) : undefined;
+        this.previewedUri = this.originUri;
+        
+        // Restore a resumed picker before it is shown, so setting its value doesn't trigger a new search
+        if (resumeState) {
+            quickPick.value = resumeState.value;
+            quickPick.items = resumeState.items;
+        }
         
         // Show the quick pick UI immediately
         quickPick.show();
         
         // Handle when the picker is closed
-        quickPick.onDidHide(() => {
-            // Disable preview mode when the quick pick is closed
-            this.previewManager.setPreviewMode(false);
+        quickPick.onDidHide(async () => {
+            // Remember the picker and its query for resuming it
+            const pickerState = getPickerState(mode, quickPick, this.searchScope);
+            if (pickerState) {
+                this.queryHistoryManager.addQuery(mode, pickerState.value);
+                this.lastPickerState = pickerState;
+            }
             
-            // Clear any search-related decorations
-            this.previewManager.clearDecorations();
+            // A picker that was replaced by another one leaves the shared state to that picker
+            if (this.activeQuickPick === quickPick) {
+                this.activeQuickPick = undefined;
+                this.activeMode = undefined;
+                vscode.commands.executeCommand('setContext', 'searchPreview.pickerVisible', false);
+                
+                this.stopPendingWork();
+                
+                // Clear any search-related decorations
+                this.previewManager.clearDecorations();
+                
+                // Disable preview mode when the quick pick is closed, which puts the editors back
+                await this.previewManager.setPreviewMode(false);
+            }
             
             // Dispose of the quickPick to free resources
             quickPick.dispose();
         });
         
-        // Load initial files list based on mode
+        // Load initial files list based on mode, a resumed picker already has its results
         try {
-            if (mode === 'standard') {
-                await this.handleStandardSearch(quickPick, '');
-            } else {
-                await this.loadRecentEditorsList(quickPick);
+            if (!resumeState) {
+                await handler.load(quickPick);
             }
         } finally {
             quickPick.busy = false;
@@ -70,97 +521,811 @@ export class QuickOpenProvider {
         
         // Update results based on user input
         quickPick.onDidChangeValue((value) => {
-            // Clear any pending search
+            // Clear any pending search and stop the one in flight, its results are stale now
             if (this.searchDebounceTimer) {
                 clearTimeout(this.searchDebounceTimer);
             }
+            this.cancelSearch();
 
             // Debounce execution to avoid kicking off a search on every single keystroke
             this.searchDebounceTimer = setTimeout(async () => {
-                if (!value || value.length < 2) {
-                    // Restore the initial files list if user clears the input
-                    if (mode === 'standard') {
-                        await this.handleStandardSearch(quickPick, '');
-                    } else {
-                        await this.loadRecentEditorsList(quickPick);
+                await handler.search(quickPick, value);
+            }, 50); // 50 ms debounce delay – tweak in settings if desired
+        });
+
+        // Set up the on change handler to show file previews
+        quickPick.onDidChangeActive(items => {
+            // Clear previous decorations
+            this.previewManager.clearDecorations();
+            
+            // Remember the previewed file for `@` symbol queries
+            const previewedItem = items[0];
+            if (previewedItem?.data && previewedItem.data.type !== 'symbol') {
+                this.previewedUri = getItemUri(previewedItem.data);
+            }
+            
+            if (this.previewDebounceTimer) {
+                clearTimeout(this.previewDebounceTimer);
+            }
+            if (handler.previewer === 'none') {
+                return;
+            }
+            this.previewDebounceTimer = setTimeout(async () => {
+                try {
+                    // Folders are previewed in the Explorer, then the picker takes the focus back
+                    if (previewedItem?.directory) {
+                        await vscode.commands.executeCommand('revealInExplorer', previewedItem.directory);
+                        quickPick.show();
+                        return;
                     }
-                    return;
+                    
+                    // Preview the file (await to ensure settings are applied)
+                    await logTiming(`Previewing ${previewedItem?.label}`, () => this.previewManager.peekItem(items));
+                } catch (error) {
+                    logError('Error during file preview', error);
                 }
+            }, SettingsManager.getPreviewDebounce());
+        });
 
-                // Handle search for both modes
-                if (mode === 'standard') {
-                    await this.handleStandardSearch(quickPick, value);
-                } else {
-                    await this.handleRecentEditorsSearch(quickPick, value);
-                }
-            }, 50); // 50 ms debounce delay – tweak in settings if desired
+        // Move through the changes of the previewed diff, the compare editor commands act on the active editor
+        quickPick.onDidTriggerButton(async button => {
+            if (button === PREVIOUS_CHANGE_BUTTON) {
+                await vscode.commands.executeCommand('workbench.action.compareEditor.previousChange');
+            } else if (button === NEXT_CHANGE_BUTTON) {
+                await vscode.commands.executeCommand('workbench.action.compareEditor.nextChange');
+            } else if (button === WIDEN_SCOPE_BUTTON) {
+                await this.widenSearchScope(quickPick, handler);
+            }
         });
 
-        // Set up the on change handler to show file previews
-        quickPick.onDidChangeActive(async items => {
-            try {
-                // Clear previous decorations
-                this.previewManager.clearDecorations();
-                
-                // Preview the file (await to ensure settings are applied)
-                await this.previewManager.peekItem(items);
-            } catch (error) {
-                console.error('Error during file preview:', error);
+        // Item buttons open the actions menu, close tabs or manage the editor history
+        quickPick.onDidTriggerItemButton(async event => {
+            if (event.button === ACTIONS_BUTTON) {
+                await this.showActions(quickPick, event.item);
+                return;
+            }
+            
+            if (event.item.tab) {
+                await this.closeTabs(event.item.tab, event.button === CLOSE_OTHER_TABS_BUTTON);
+                await this.handleOpenEditorsSearch(quickPick, quickPick.value);
+                return;
+            }
+            
+            if (!event.item.data) {
+                return;
+            }
+            const uri = getItemUri(event.item.data);
+            if (event.button === REMOVE_BUTTON) {
+                this.editorHistoryManager.removeFromHistory(uri);
+            } else {
+                this.editorHistoryManager.setPinned(uri, event.button === PIN_BUTTON);
             }
+            await this.refreshRecentEditors(quickPick);
         });
 
-        // Handle selection
+        // Handle selection, with multi-select every checked item is opened
         quickPick.onDidAccept(async () => {
-            const selectedItem = quickPick.selectedItems[0];
+            const selectedItems = quickPick.canSelectMany
+                ? this.getTargetItems(quickPick)
+                : quickPick.selectedItems.slice(0, 1);
             
-            if (selectedItem && selectedItem.data) {
-                await this.previewManager.openSelectedFile(selectedItem.data);
+            // A folder has follow-up actions, the menu replaces the picker
+            const directory = selectedItems[0]?.directory;
+            if (directory) {
+                quickPick.hide();
+                await this.actionsManager.showDirectoryActions(directory, scope => this.show('standard', undefined, scope));
+                return;
+            }
+            
+            for (const selectedItem of selectedItems) {
+                if (selectedItem.data) {
+                    await this.previewManager.openSelectedFile(selectedItem.data);
+                } else if (selectedItem.tab) {
+                    await this.previewManager.openTab(selectedItem.tab);
+                }
             }
             
             quickPick.hide();
         });
+        
+        // Select and preview the item the resumed picker was left on
+        if (resumeState) {
+            if (quickPick.canSelectMany) {
+                quickPick.selectedItems = resumeState.selectedItems;
+            }
+            if (resumeState.activeItem) {
+                quickPick.activeItems = [resumeState.activeItem];
+            }
+        }
+    }
+    
+    /**
+     * Drop the folder a picker is scoped to and search the whole workspace for the current query
+     */
+    private async widenSearchScope(quickPick: vscode.QuickPick<SearchQuickPickItem>, handler: ModeHandler): Promise<void> {
+        this.searchScope = undefined;
+        quickPick.title = undefined;
+        quickPick.buttons = [];
+        
+        await handler.search(quickPick, quickPick.value);
+    }
+    
+    /**
+     * Cancel the running search, if any
+     */
+    private cancelSearch(): void {
+        if (this.searchCancellation) {
+            this.searchCancellation.cancel();
+            this.searchCancellation.dispose();
+            this.searchCancellation = undefined;
+        }
+    }
+    
+    /**
+     * Stop any search or preview that is still pending
+     */
+    private stopPendingWork(): void {
+        if (this.searchDebounceTimer) {
+            clearTimeout(this.searchDebounceTimer);
+        }
+        if (this.previewDebounceTimer) {
+            clearTimeout(this.previewDebounceTimer);
+        }
+        this.cancelSearch();
+    }
+    
+    /**
+     * Cancel the running search and get a token for a new one
+     */
+    private startSearch(): vscode.CancellationToken {
+        this.cancelSearch();
+        this.searchCancellation = new vscode.CancellationTokenSource();
+        return this.searchCancellation.token;
+    }
+    
+    /**
+     * Create a sink that streams batches of results into the picker. The first batch replaces the
+     * previous query's items so the list doesn't flash empty, batches of a cancelled search are dropped
+     * and the active item is kept so the preview doesn't jump around while results arrive
+     */
+    private streamResults(quickPick: vscode.QuickPick<SearchQuickPickItem>, token: vscode.CancellationToken) {
+        let items: SearchQuickPickItem[] | undefined;
+        
+        return {
+            push: (batch: SearchQuickPickItem[]) => {
+                if (token.isCancellationRequested) {
+                    return;
+                }
+                const activeItems = items ? quickPick.activeItems : [];
+                items = [...(items ?? []), ...batch];
+                quickPick.items = items;
+                if (activeItems.length > 0) {
+                    quickPick.activeItems = activeItems;
+                }
+            },
+            // Clear the previous query's items when nothing matched at all
+            finish: () => {
+                if (!token.isCancellationRequested && !items) {
+                    quickPick.items = [];
+                }
+            }
+        };
+    }
+    
+    /**
+     * Handles a query of the standard picker, whose prefix modes mirror native quick open
+     */
+    private async handleStandardQuery(quickPick: vscode.QuickPick<SearchQuickPickItem>, value: string): Promise<void> {
+        if (value.startsWith('>')) {
+            // Hand the query over to the command palette
+            quickPick.hide();
+            await vscode.commands.executeCommand('workbench.action.quickOpen', value);
+            return;
+        }
+        if (value.startsWith('@')) {
+            await this.handleSymbolSearch(quickPick, value.slice(1));
+            return;
+        }
+        
+        // Restore the initial files list if user clears the input
+        await this.handleStandardSearch(quickPick, value.length < 2 ? '' : value);
     }
     
     /**
      * Handles search for the standard quick open mode
      */
     private async handleStandardSearch(quickPick: vscode.QuickPick<SearchQuickPickItem>, value: string): Promise<void> {
+        const token = this.startSearch();
+        const stream = this.streamResults(quickPick, token);
         quickPick.busy = true;
         
         try {
-            const excludePattern = SettingsManager.getGlobExcludePattern();
-            const files = await vscode.workspace.findFiles('**/*', excludePattern);
+            // A `folderName:` prefix restricts the search to one workspace folder,
+            // a `:line` or `:line:column` suffix opens the file at that position
+            const { folder, query: folderQuery } = parseFolderQuery(value);
+            const { query, linePos = 0, colPos = 0 } = parseLineQuery(folderQuery);
             
-            // Let fzf do ALL the filtering
-            const matchResults = await fuzzySearchFiles(files, value);
-                
-            const filenameResults = matchResults.map(({ uri }) => {
-                const relativePath = vscode.workspace.asRelativePath(uri.fsPath);
-                const searchablePath = relativePath.replace(/[\/\\]/g, '');
+            // A bare `:line` jumps within the file the picker was opened from
+            if (!query && value.startsWith(':') && this.originUri) {
+                stream.push([this.createFileItem(this.originUri, value, linePos, colPos)]);
+                return;
+            }
+            
+            // Served from memory, the index keeps itself up to date
+            const allFiles = await this.fileIndexManager.getFiles();
+            const scopedFiles = this.searchScope ? filterFilesByDirectory(allFiles, this.searchScope) : allFiles;
+            const files = folder ? filterFilesByFolder(scopedFiles, folder) : scopedFiles;
+            const maxResults = SettingsManager.getMaxResults();
+            const toItems = (matches: FileMatch[]) =>
+                matches.map(({ uri }) => this.createFileItem(uri, value, linePos, colPos));
+            
+            if (SettingsManager.getRanking() === 'frecency') {
+                // Re-ranking needs the whole candidate pool, so results can't stream in
+                const matches = query
+                    ? await fuzzySearchFiles(files, query, { token, limit: maxResults * FRECENCY_POOL_FACTOR })
+                    : files
+                        .filter(uri => !SettingsManager.shouldExcludeFile(uri.fsPath))
+                        .map(uri => ({ uri, score: 0 }));
+                if (token.isCancellationRequested) {
+                    return;
+                }
                 
-                return {
-                    label: `${relativePath}`,
-                    description: '', 
-                    data: {
-                        filePath: uri.fsPath,
-                        searchablePath,
-                        fileName: path.basename(uri.fsPath),
-                        linePos: 0,
-                        colPos: 0,
-                        searchText: value,
-                        type: 'file' as 'file' 
-                    }
-                };
+                const ranked = rankByFrecency(
+                    matches,
+                    uri => this.frecencyManager.getScore(uri),
+                    this.originDirectory
+                );
+                stream.push(toItems(ranked.slice(0, maxResults)));
+            } else {
+                // Let the matcher do ALL the filtering, respecting its original ranking
+                await fuzzySearchFiles(files, query, {
+                    token,
+                    limit: maxResults,
+                    onResults: matches => stream.push(toItems(matches))
+                });
+            }
+            stream.finish();
+        } catch (error) {
+            if (!(error instanceof vscode.CancellationError)) {
+                reportError('Searching files failed', error);
+                quickPick.items = [];
+            }
+        } finally {
+            if (!token.isCancellationRequested) {
+                quickPick.busy = false;
+            }
+        }
+    }
+    
+    /**
+     * Convert a matched file into a quick pick item, with the file name as label,
+     * and its directory (and workspace folder in multi-root workspaces) as description
+     */
+    private createFileItem(
+        uri: vscode.Uri,
+        value: string,
+        linePos: number = 0,
+        colPos: number = 0
+    ): SearchQuickPickItem {
+        const relativePath = getRelativePath(uri);
+        const searchablePath = relativePath.replace(/[\/\\]/g, '');
+        
+        const folderName = getWorkspaceFolderName(uri);
+        const fileLocation = getFileLocation(relativePath);
+        const description = folderName
+            ? [fileLocation, folderName].filter(Boolean).join(' · ')
+            : fileLocation;
+        
+        return {
+            label: path.basename(relativePath),
+            description,
+            // The matcher already decided this is a match, VS Code's own filtering must not hide it
+            alwaysShow: true,
+            buttons: [ACTIONS_BUTTON],
+            data: {
+                filePath: uri.fsPath,
+                uri,
+                searchablePath,
+                fileName: path.basename(uri.fsPath),
+                linePos,
+                colPos,
+                searchText: value,
+                type: 'file' as 'file'
+            }
+        };
+    }
+    
+    /**
+     * Handles live search in file contents, results are appended as they stream in
+     */
+    private async handleContentSearch(quickPick: vscode.QuickPick<SearchQuickPickItem>, value: string): Promise<void> {
+        const token = this.startSearch();
+        const stream = this.streamResults(quickPick, token);
+        quickPick.busy = true;
+        
+        try {
+            // Every occurrence of the query is highlighted in the preview, not just the match
+            const occurrences = buildOccurrencePattern(value);
+            await logTiming(`Searching file contents for ${value}`, () => searchFileContents(
+                value,
+                matches => stream.push(matches.map(match => this.createContentItem(match, value, occurrences))),
+                token,
+                this.searchScope
+            ));
+            stream.finish();
+        } catch (error) {
+            if (!token.isCancellationRequested) {
+                logError('Error during content search', error);
+                quickPick.items = [];
+            }
+        } finally {
+            if (!token.isCancellationRequested) {
+                quickPick.busy = false;
+            }
+        }
+    }
+    
+    /**
+     * Convert a content match into a quick pick item
+     */
+    private createContentItem(match: ContentMatch, value: string, occurrences?: RegExp): SearchQuickPickItem {
+        const uri = vscode.Uri.file(match.filePath);
+        const relativePath = getRelativePath(uri);
+        
+        return {
+            label: `${relativePath}:${match.linePos + 1}:${match.colPos + 1}`,
+            description: getWorkspaceFolderName(uri),
+            detail: match.lineText.trim(),
+            // The query is a pattern, so VS Code's own label filtering must not hide matches
+            alwaysShow: true,
+            buttons: [ACTIONS_BUTTON],
+            data: {
+                filePath: match.filePath,
+                fileName: path.basename(match.filePath),
+                linePos: match.linePos,
+                colPos: match.colPos,
+                searchText: value,
+                type: 'content' as 'content',
+                lineText: match.lineText,
+                occurrences
+            }
+        };
+    }
+    
+    /**
+     * Handles `@` queries of the standard mode, listing the symbols of the previewed file
+     */
+    private async handleSymbolSearch(quickPick: vscode.QuickPick<SearchQuickPickItem>, query: string): Promise<void> {
+        const token = this.startSearch();
+        const stream = this.streamResults(quickPick, token);
+        quickPick.busy = true;
+        
+        try {
+            const uri = this.previewedUri;
+            const symbols = uri
+                ? await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+                    'vscode.executeDocumentSymbolProvider',
+                    uri
+                )
+                : undefined;
+            if (!uri || !symbols || token.isCancellationRequested) {
+                stream.finish();
+                return;
+            }
+            
+            // Without a query keep the document order, like native `@`
+            const entries = flattenDocumentSymbols(symbols, uri);
+            const matches = await fuzzySearchItems(entries, entry => entry.name, query, {
+                token,
+                limit: SettingsManager.getMaxResults()
             });
+            stream.push(matches.map(({ item }) => this.createSymbolItem(item, query)));
+            stream.finish();
+        } catch (error) {
+            if (!(error instanceof vscode.CancellationError)) {
+                logError('Error during symbol search', error);
+                quickPick.items = [];
+            }
+        } finally {
+            if (!token.isCancellationRequested) {
+                quickPick.busy = false;
+            }
+        }
+    }
+    
+    /**
+     * Handles search for the workspace symbols mode, querying the symbol providers as the user types
+     */
+    private async handleWorkspaceSymbolSearch(quickPick: vscode.QuickPick<SearchQuickPickItem>, value: string): Promise<void> {
+        const token = this.startSearch();
+        const stream = this.streamResults(quickPick, token);
+        quickPick.busy = true;
+        
+        try {
+            const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+                'vscode.executeWorkspaceSymbolProvider',
+                value
+            ) ?? [];
             
-            // Respect fzf's original ranking, no additional sorting
-            const maxResults = SettingsManager.getMaxResults();
-            quickPick.items = filenameResults.slice(0, maxResults);
+            // The providers can't be cancelled, drop their results if the query changed meanwhile
+            if (token.isCancellationRequested) {
+                return;
+            }
+            
+            // Only files can be previewed, and the exclude settings apply here too
+            const entries = symbols
+                .map(toSymbolEntry)
+                .filter(entry => entry.uri.scheme === 'file' && !SettingsManager.shouldExcludeFile(entry.uri.fsPath))
+                .slice(0, SettingsManager.getMaxResults());
+            
+            stream.push(entries.map(entry => this.createSymbolItem(entry, value, true)));
+            stream.finish();
         } catch (error) {
-            console.error('Error during search:', error);
-            quickPick.items = [];
+            if (!token.isCancellationRequested) {
+                logError('Error during workspace symbol search', error);
+                quickPick.items = [];
+            }
         } finally {
-            quickPick.busy = false;
+            if (!token.isCancellationRequested) {
+                quickPick.busy = false;
+            }
+        }
+    }
+    
+    /**
+     * Convert a symbol into a quick pick item with its kind icon, name and container
+     * @param showLocation Also show the file and line, for symbols from all over the workspace
+     */
+    private createSymbolItem(
+        symbol: SymbolEntry,
+        value: string,
+        showLocation: boolean = false
+    ): SearchQuickPickItem {
+        return {
+            label: `$(${getSymbolIcon(symbol.kind)}) ${symbol.name}`,
+            description: symbol.containerName,
+            detail: showLocation
+                ? `${getRelativePath(symbol.uri)}:${symbol.range.start.line + 1}`
+                : undefined,
+            alwaysShow: true,
+            buttons: [ACTIONS_BUTTON],
+            data: {
+                filePath: symbol.uri.fsPath,
+                fileName: path.basename(symbol.uri.fsPath),
+                linePos: symbol.range.start.line,
+                colPos: symbol.range.start.character,
+                searchText: value,
+                type: 'symbol' as 'symbol',
+                range: symbol.range,
+                // Show where else the symbol is used in the file
+                occurrences: new RegExp(escapeRegExp(symbol.name), 'g')
+            }
+        };
+    }
+    
+    /**
+     * Handles search for the directory picker, an empty query lists the folders by path
+     */
+    private async handleDirectorySearch(quickPick: vscode.QuickPick<SearchQuickPickItem>, value: string): Promise<void> {
+        const token = this.startSearch();
+        const stream = this.streamResults(quickPick, token);
+        quickPick.busy = true;
+        
+        try {
+            if (!value) {
+                const directories = [...this.directories]
+                    .sort((a, b) => getRelativePath(a).localeCompare(getRelativePath(b)))
+                    .slice(0, SettingsManager.getMaxResults());
+                stream.push(directories.map(directory => this.createDirectoryItem(directory)));
+            } else {
+                await fuzzySearchItems(this.directories, directory => getRelativePath(directory), value, {
+                    token,
+                    limit: SettingsManager.getMaxResults(),
+                    onResults: matches => stream.push(matches.map(({ item }) =>
+                        this.createDirectoryItem(item)
+                    ))
+                });
+            }
+            stream.finish();
+        } catch (error) {
+            if (!(error instanceof vscode.CancellationError)) {
+                logError('Error during search', error);
+                quickPick.items = [];
+            }
+        } finally {
+            if (!token.isCancellationRequested) {
+                quickPick.busy = false;
+            }
+        }
+    }
+    
+    /**
+     * Convert a folder into a quick pick item, with its name as label and its parent folder as description
+     */
+    private createDirectoryItem(directory: vscode.Uri): SearchQuickPickItem {
+        const relativePath = getRelativePath(directory);
+        
+        const folderName = getWorkspaceFolderName(directory);
+        const parentLocation = getFileLocation(relativePath);
+        
+        return {
+            label: path.basename(relativePath),
+            description: folderName ? [parentLocation, folderName].filter(Boolean).join(' · ') : parentLocation,
+            iconPath: vscode.ThemeIcon.Folder,
+            alwaysShow: true,
+            directory
+        };
+    }
+    
+    /**
+     * Get all entries of a registered picker, for filtering them with the fuzzy matcher
+     */
+    private async loadPickerEntries(picker: PickerDefinition): Promise<PickerEntry[]> {
+        const cancellation = new vscode.CancellationTokenSource();
+        try {
+            return await picker.getEntries('', cancellation.token);
+        } catch (error) {
+            vscode.window.showErrorMessage(`${picker.title}: ${error instanceof Error ? error.message : error}`);
+            return [];
+        } finally {
+            cancellation.dispose();
+        }
+    }
+    
+    /**
+     * Handles search for a registered picker, either by its source or by fuzzy matching its entries
+     */
+    private async handleRegisteredPickerSearch(
+        quickPick: vscode.QuickPick<SearchQuickPickItem>,
+        picker: PickerDefinition,
+        value: string
+    ): Promise<void> {
+        const token = this.startSearch();
+        const stream = this.streamResults(quickPick, token);
+        quickPick.busy = true;
+        
+        try {
+            if (picker.matcher === 'source') {
+                const entries = await picker.getEntries(value, token);
+                stream.push(entries.slice(0, SettingsManager.getMaxResults()).map(entry =>
+                    this.createPickerEntryItem(entry, value)
+                ));
+            } else if (!value) {
+                stream.push(this.pickerEntries.map(entry => this.createPickerEntryItem(entry, '')));
+            } else {
+                await fuzzySearchItems(this.pickerEntries, entry => entry.label ?? getRelativePath(entry.uri), value, {
+                    token,
+                    limit: SettingsManager.getMaxResults(),
+                    onResults: matches => stream.push(matches.map(({ item }) =>
+                        this.createPickerEntryItem(item, value)
+                    ))
+                });
+            }
+            stream.finish();
+        } catch (error) {
+            if (!(error instanceof vscode.CancellationError)) {
+                // The source is not ours, tell the user why the picker stays empty
+                vscode.window.showErrorMessage(`${picker.title}: ${error instanceof Error ? error.message : error}`);
+                quickPick.items = [];
+            }
+        } finally {
+            if (!token.isCancellationRequested) {
+                quickPick.busy = false;
+            }
+        }
+    }
+    
+    /**
+     * Convert an entry of a registered picker into a quick pick item. Without a label of its own
+     * it looks like a file result, with the line number after the file name
+     */
+    private createPickerEntryItem(entry: PickerEntry, value: string): SearchQuickPickItem {
+        const item = this.createFileItem(entry.uri, value, entry.line, entry.column);
+        if (entry.label) {
+            item.label = entry.label;
+        } else if (entry.line !== undefined) {
+            item.label = `${item.label}:${entry.line + 1}`;
+        }
+        if (entry.description !== undefined) {
+            item.description = entry.description;
+        }
+        item.detail = entry.detail;
+        item.entry = entry;
+        return item;
+    }
+    
+    /**
+     * Handles search for the jump list mode, an empty query lists every jump
+     */
+    private async handleJumpListSearch(quickPick: vscode.QuickPick<SearchQuickPickItem>, value: string): Promise<void> {
+        const token = this.startSearch();
+        const stream = this.streamResults(quickPick, token);
+        quickPick.busy = true;
+        
+        try {
+            // Most recent jumps first, like vim's :jumps read from the bottom
+            const entries = [...this.jumpListManager.getEntries()].reverse();
+            const currentEntry = this.jumpListManager.getEntries()[this.jumpListManager.getIndex()];
+            
+            if (!value) {
+                stream.push(entries.map(entry => this.createJumpItem(entry, '', entry === currentEntry)));
+            } else {
+                await fuzzySearchItems(entries, entry => getRelativePath(entry.uri), value, {
+                    token,
+                    limit: SettingsManager.getMaxResults(),
+                    onResults: matches => stream.push(matches.map(({ item }) =>
+                        this.createJumpItem(item, value, item === currentEntry)
+                    ))
+                });
+            }
+            stream.finish();
+        } catch (error) {
+            if (!(error instanceof vscode.CancellationError)) {
+                logError('Error during search', error);
+                quickPick.items = [];
+            }
+        } finally {
+            if (!token.isCancellationRequested) {
+                quickPick.busy = false;
+            }
+        }
+    }
+    
+    /**
+     * Convert a jump list location into a quick pick item, with the line number after the file name
+     */
+    private createJumpItem(
+        location: JumpLocation,
+        value: string,
+        isCurrent: boolean
+    ): SearchQuickPickItem {
+        const item = this.createFileItem(location.uri, value, location.linePos, location.colPos);
+        item.label = `${item.label}:${location.linePos + 1}`;
+        if (isCurrent) {
+            item.description = [item.description, 'current position'].filter(Boolean).join(' · ');
+        }
+        return item;
+    }
+    
+    /**
+     * Handles search for the git changes mode, an empty query lists every changed file
+     */
+    private async handleGitChangesSearch(quickPick: vscode.QuickPick<SearchQuickPickItem>, value: string): Promise<void> {
+        const token = this.startSearch();
+        const stream = this.streamResults(quickPick, token);
+        quickPick.busy = true;
+        
+        try {
+            if (!value) {
+                stream.push(this.gitChanges.map(change => this.createGitChangeItem(change, '')));
+            } else {
+                await fuzzySearchItems(this.gitChanges, change => getRelativePath(change.uri), value, {
+                    token,
+                    limit: SettingsManager.getMaxResults(),
+                    onResults: matches => stream.push(matches.map(({ item }) =>
+                        this.createGitChangeItem(item, value)
+                    ))
+                });
+            }
+            stream.finish();
+        } catch (error) {
+            if (!(error instanceof vscode.CancellationError)) {
+                logError('Error during search', error);
+                quickPick.items = [];
+            }
+        } finally {
+            if (!token.isCancellationRequested) {
+                quickPick.busy = false;
+            }
+        }
+    }
+    
+    /**
+     * Convert a changed file into a quick pick item with its status letters, previewed as a diff against HEAD.
+     * Deleted files only exist in HEAD, that version is shown instead. Files that were added
+     * and then deleted have none, a placeholder says so
+     */
+    private createGitChangeItem(change: GitChange, value: string): SearchQuickPickItem {
+        const item = this.createFileItem(change.uri, value);
+        // Like `git status --short`, except that a change that is only staged says so
+        const [indexStatus, workTreeStatus] = change.status;
+        const status = workTreeStatus === ' ' ? `${indexStatus} (staged)` : change.status.trim();
+        item.description = [item.description, status].filter(Boolean).join(' · ');
+        if (change.deleted) {
+            item.data!.uri = change.headUri ?? PreviewPlaceholderProvider.createUri(change.uri, { skipReason: 'deleted' });
+        } else {
+            item.data!.diffUri = change.headUri;
+        }
+        return item;
+    }
+    
+    /**
+     * Handles search for the open editors mode, listing the matching tabs under their editor group
+     */
+    private async handleOpenEditorsSearch(quickPick: vscode.QuickPick<SearchQuickPickItem>, value: string): Promise<void> {
+        const token = this.startSearch();
+        quickPick.busy = true;
+        
+        try {
+            const tabGroups = vscode.window.tabGroups.all;
+            const tabs = tabGroups.flatMap(group => group.tabs);
+            
+            // Tabs without a document, like webviews and terminals, are matched by their title
+            const matches = value
+                ? await fuzzySearchItems(tabs, tab => {
+                    const uri = getTabUri(tab);
+                    return uri ? getRelativePath(uri) : tab.label;
+                }, value, { token, limit: SettingsManager.getMaxResults() })
+                : tabs.map(tab => ({ item: tab }));
+            if (token.isCancellationRequested) {
+                return;
+            }
+            
+            // Group the matches by editor group, keeping the matcher's ranking within each group
+            const items: SearchQuickPickItem[] = [];
+            for (const group of tabGroups) {
+                const groupMatches = matches.filter(match => match.item.group.viewColumn === group.viewColumn);
+                if (groupMatches.length === 0) {
+                    continue;
+                }
+                if (tabGroups.length > 1) {
+                    items.push({ label: `Group ${group.viewColumn}`, kind: vscode.QuickPickItemKind.Separator });
+                }
+                items.push(...groupMatches.map(({ item }) => this.createTabItem(item, value)));
+            }
+            quickPick.items = items;
+        } catch (error) {
+            if (!(error instanceof vscode.CancellationError)) {
+                logError('Error during search', error);
+                quickPick.items = [];
+            }
+        } finally {
+            if (!token.isCancellationRequested) {
+                quickPick.busy = false;
+            }
+        }
+    }
+    
+    /**
+     * Convert an open tab into a quick pick item with buttons to close it. Tabs with a document are
+     * previewed in their own group, others show what kind of editor they are
+     */
+    private createTabItem(tab: vscode.Tab, value: string): SearchQuickPickItem {
+        const uri = getTabUri(tab);
+        const item: SearchQuickPickItem = uri
+            ? this.createFileItem(uri, value)
+            : {
+                label: tab.label,
+                description: getTabKind(tab),
+                alwaysShow: true
+            };
+        
+        if (item.data) {
+            item.data.viewColumn = tab.group.viewColumn;
+        }
+        if (tab.isDirty) {
+            item.label = `${item.label} ●`;
+        }
+        item.tab = tab;
+        item.buttons = [
+            tab.isDirty ? CLOSE_UNSAVED_TAB_BUTTON : CLOSE_TAB_BUTTON,
+            CLOSE_OTHER_TABS_BUTTON,
+            ...(uri ? [ACTIONS_BUTTON] : [])
+        ];
+        return item;
+    }
+    
+    /**
+     * Close a tab, or all other tabs of its group
+     */
+    private async closeTabs(tab: vscode.Tab, closeOthers: boolean): Promise<void> {
+        const tabs = closeOthers
+            ? tab.group.tabs.filter(otherTab => otherTab !== tab)
+            : [tab];
+        try {
+            await vscode.window.tabGroups.close(tabs);
+        } catch (error) {
+            logError('Error closing tabs', error);
         }
     }
     
@@ -168,54 +1333,68 @@ export class QuickOpenProvider {
      * Handles search for the most recently used editors mode
      */
     private async handleRecentEditorsSearch(quickPick: vscode.QuickPick<SearchQuickPickItem>, value: string): Promise<void> {
+        const token = this.startSearch();
+        const stream = this.streamResults(quickPick, token);
         quickPick.busy = true;
         
         try {
             // Get editor history items
-            const historyItems = this.editorHistoryManager.getHistory().filter(item => {
-                return item.uri.scheme === 'file';
-            });
+            const historyItems = this.editorHistoryManager.getHistory();
+            
+            // A `folderName:` prefix restricts the search to one workspace folder
+            const { folder, query } = parseFolderQuery(value);
             
-            // Convert to URI array for fzf search
-            const historyUris = historyItems.map(item => item.uri);
+            // Convert to URI array for the matcher
+            const allHistoryUris = historyItems.map(item => item.uri);
+            const historyUris = folder ? filterFilesByFolder(allHistoryUris, folder) : allHistoryUris;
             
-            // Create a map to quickly get history items by fsPath
-            const historyItemsByPath = new Map();
+            // Create a map to quickly get history items by URI
+            const historyItemsByUri = new Map<string, EditorHistoryItem>();
             historyItems.forEach(item => {
-                historyItemsByPath.set(item.uri.fsPath, item);
+                historyItemsByUri.set(item.uri.toString(), item);
             });
             
-            // Use fzf for searching, just like in standard search
-            const matchResults = await fuzzySearchFiles(historyUris, value);
-                
-            const filenameResults = matchResults.map(({ uri }) => {
-                const relativePath = vscode.workspace.asRelativePath(uri.fsPath);
-                const searchablePath = relativePath.replace(/[\/\\]/g, '');
-                const historyItem = historyItemsByPath.get(uri.fsPath);
-                
-                return {
-                    label: `${relativePath}`,
-                    description: '', 
-                    data: {
-                        filePath: uri.fsPath,
-                        searchablePath,
-                        fileName: path.basename(uri.fsPath),
-                        linePos: historyItem?.linePos || 0,
-                        colPos: historyItem?.colPos || 0,
-                        searchText: value,
-                        type: 'file' as 'file' 
-                    }
-                };
+            // Use the matcher for searching, just like in standard search,
+            // respecting its original ranking – no additional sorting
+            await fuzzySearchFiles(historyUris, query, {
+                token,
+                limit: SettingsManager.getMaxResults(),
+                onResults: matches => stream.push(matches.map(({ uri }) => {
+                    // Every matched file comes from the history
+                    const historyItem = historyItemsByUri.get(uri.toString())!;
+                    return this.createHistoryItem(historyItem, value);
+                }))
             });
-            
-            // Respect fzf's original ranking – no additional sorting
-            const maxResults = SettingsManager.getMaxResults();
-            quickPick.items = filenameResults.slice(0, maxResults);
+            stream.finish();
         } catch (error) {
-            console.error('Error during search:', error);
-            quickPick.items = [];
+            if (!(error instanceof vscode.CancellationError)) {
+                logError('Error during search', error);
+                quickPick.items = [];
+            }
         } finally {
-            quickPick.busy = false;
+            if (!token.isCancellationRequested) {
+                quickPick.busy = false;
+            }
+        }
+    }
+    
+    /**
+     * Convert a history entry into a quick pick item, with buttons to pin or remove it
+     */
+    private createHistoryItem(historyItem: EditorHistoryItem, value: string): SearchQuickPickItem {
+        const item = this.createFileItem(historyItem.uri, value, historyItem.linePos || 0, historyItem.colPos || 0);
+        item.buttons = [historyItem.pinned ? UNPIN_BUTTON : PIN_BUTTON, REMOVE_BUTTON, ACTIONS_BUTTON];
+        return item;
+    }
+    
+    /**
+     * Reload the recent editors list after the history changed, keeping the current query
+     */
+    private async refreshRecentEditors(quickPick: vscode.QuickPick<SearchQuickPickItem>): Promise<void> {
+        if (quickPick.value.length < 2) {
+            await this.loadRecentEditorsList(quickPick);
+        } else {
+            await this.handleRecentEditorsSearch(quickPick, quickPick.value);
         }
     }
     
@@ -224,6 +1403,8 @@ export class QuickOpenProvider {
      * Loads the list of most recently used editors from the tracked history
      */
     private async loadRecentEditorsList(quickPick: vscode.QuickPick<SearchQuickPickItem>): Promise<void> {
+        const token = this.startSearch();
+        
         // Show loading indicator
         quickPick.busy = true;
         
@@ -232,50 +1413,52 @@ export class QuickOpenProvider {
             
             // Get the currently active editor URI to exclude it
             const activeEditor = vscode.window.activeTextEditor;
-            const activeEditorUri = activeEditor?.document.uri.fsPath;
+            const activeEditorUri = activeEditor?.document.uri.toString();
             
             // Use the editor history we've been tracking
-            // This includes both currently open and previously opened editors
-            for (const historyItem of this.editorHistoryManager.getHistory()) {
+            // This includes both currently open and previously opened editors,
+            // pinned entries go first and keep their order (the sort is stable)
+            const historyItems = [...this.editorHistoryManager.getHistory()]
+                .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned));
+            for (const historyItem of historyItems) {
                 // Skip the currently active editor
-                if (historyItem.uri.scheme === 'file' && historyItem.uri.fsPath !== activeEditorUri) {
-                    try {
-                        // Verify the file still exists
-                        await vscode.workspace.fs.stat(historyItem.uri);
-                        
-                        const relativePath = vscode.workspace.asRelativePath(historyItem.uri.fsPath);
-                        
-                        // Find whether this file is currently open
-                        const isCurrentlyOpen = vscode.window.visibleTextEditors.some(
-                            editor => editor.document.uri.fsPath === historyItem.uri.fsPath
-                        );
-                        
-                        results.push({
-                            label: `${relativePath}`,
-                            description: getFileLocation(relativePath),
-                            data: {
-                                filePath: historyItem.uri.fsPath,
-                                fileName: path.basename(historyItem.uri.fsPath),
-                                searchablePath: relativePath.replace(/[\/\\]/g, ''),
-                                linePos: historyItem.linePos || 0,
-                                colPos: historyItem.colPos || 0,
-                                type: 'file' as 'file' 
-                            }
-                        });
-                    } catch (error) {
-                        // Skip files that no longer exist
-                        continue;
+                if (historyItem.uri.toString() === activeEditorUri) {
+                    continue;
+                }
+                
+                // Untitled documents only exist while they are open
+                if (historyItem.uri.scheme === 'untitled') {
+                    const isOpen = vscode.workspace.textDocuments.some(document =>
+                        document.uri.toString() === historyItem.uri.toString()
+                    );
+                    if (isOpen) {
+                        results.push(this.createHistoryItem(historyItem, ''));
                     }
+                    continue;
+                }
+                
+                try {
+                    // Verify the file still exists, it may have been removed outside of VS Code
+                    await vscode.workspace.fs.stat(historyItem.uri);
+                    
+                    results.push(this.createHistoryItem(historyItem, ''));
+                } catch (error) {
+                    // Skip files that no longer exist
+                    continue;
                 }
             }
             
-            // Update quickpick items
-            quickPick.items = results;
+            // Update quickpick items, unless the user typed a query in the meantime
+            if (!token.isCancellationRequested) {
+                quickPick.items = results;
+            }
         } catch (error) {
-            console.error('Error loading recent editors:', error);
+            logError('Error loading recent editors', error);
             quickPick.items = [];
         } finally {
-            quickPick.busy = false;
+            if (!token.isCancellationRequested) {
+                quickPick.busy = false;
+            }
         }
     }
 } 
\ No newline at end of file
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseEntryLine } from '../utils/commandUtils';
+
+suite('parseEntryLine', () => {
+	const cwd = path.join(path.sep, 'repo');
+
+	test('Blank lines are skipped', () => {
+		assert.strictEqual(parseEntryLine('', cwd), undefined);
+		assert.strictEqual(parseEntryLine('   ', cwd), undefined);
+	});
+
+	test('A path is resolved against the working directory', () => {
+		const entry = parseEntryLine('src/extension.ts', cwd);
+		assert.strictEqual(entry?.uri.fsPath, path.join(cwd, 'src', 'extension.ts'));
+		assert.strictEqual(entry?.line, undefined);
+		assert.strictEqual(entry?.column, undefined);
+		assert.strictEqual(entry?.detail, undefined);
+	});
+
+	test('Absolute paths are kept', () => {
+		const filePath = path.join(path.sep, 'other', 'file.ts');
+		assert.strictEqual(parseEntryLine(filePath, cwd)?.uri.fsPath, filePath);
+	});
+
+	test('Line and column are zero based', () => {
+		const entry = parseEntryLine('src/extension.ts:12:5', cwd);
+		assert.strictEqual(entry?.uri.fsPath, path.join(cwd, 'src', 'extension.ts'));
+		assert.strictEqual(entry?.line, 11);
+		assert.strictEqual(entry?.column, 4);
+	});
+
+	test('Text after the location becomes the detail, like grep output', () => {
+		const entry = parseEntryLine('src/extension.ts:12:  export function activate() {', cwd);
+		assert.strictEqual(entry?.line, 11);
+		assert.strictEqual(entry?.column, undefined);
+		assert.strictEqual(entry?.detail, 'export function activate() {');
+
+		const withColumn = parseEntryLine('src/extension.ts:12:5:activate: start', cwd);
+		assert.strictEqual(withColumn?.column, 4);
+		assert.strictEqual(withColumn?.detail, 'activate: start');
+	});
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { PersistedEditorHistory } from '../types';
+import { EditorHistoryManager, migrateHistory } from '../lib/editorHistory';
+import { getRelativePath } from '../utils/fileUtils';
+
+suite('migrateHistory', () => {
+	const uri = vscode.Uri.file('/repo/src/extension.ts').toString();
+
+	test('Without saved history there is nothing to migrate', () => {
+		assert.deepStrictEqual(migrateHistory(undefined), []);
+	});
+
+	test('A bare list from before versioning gets its relative paths and cursor positions fixed', () => {
+		const saved = [
+			{ uri, timestamp: 1, relativePath: 'repo/src/extension.ts', pinned: true }
+		] as PersistedEditorHistory['items'];
+
+		assert.deepStrictEqual(migrateHistory(saved), [{
+			uri,
+			timestamp: 1,
+			linePos: 0,
+			colPos: 0,
+			relativePath: getRelativePath(vscode.Uri.parse(uri)),
+			pinned: true
+		}]);
+	});
+
+	test('Cursor positions that were saved are kept', () => {
+		const saved = [
+			{ uri, timestamp: 1, linePos: 12, colPos: 4, relativePath: 'src/extension.ts' }
+		];
+		const [item] = migrateHistory(saved);
+		assert.strictEqual(item.linePos, 12);
+		assert.strictEqual(item.colPos, 4);
+	});
+
+	test('History of the current version is left alone', () => {
+		const saved: PersistedEditorHistory = {
+			version: 1,
+			items: [{ uri, timestamp: 1, linePos: 3, colPos: 2, relativePath: 'custom/path.ts' }]
+		};
+		assert.deepStrictEqual(migrateHistory(saved), saved.items);
+	});
+});
+
+suite('EditorHistoryManager', () => {
+	const configuration = () => vscode.workspace.getConfiguration('searchPreview.history');
+	const uris = ['a.ts', 'b.ts', 'c.ts'].map(name => vscode.Uri.file(`/repo/src/${name}`));
+	const historyPaths = (manager: EditorHistoryManager) => manager.getHistory().map(item => item.uri.path);
+	let manager: EditorHistoryManager;
+
+	setup(() => {
+		// Nothing is saved, the tests only look at the history in memory
+		const workspaceState = { get: () => undefined, update: async () => {} };
+		manager = new EditorHistoryManager({ workspaceState } as unknown as vscode.ExtensionContext);
+		manager.clearHistory();
+		uris.forEach(uri => manager.forceAddToHistory(uri));
+	});
+
+	teardown(async () => {
+		await configuration().update('maxSize', undefined, vscode.ConfigurationTarget.Global);
+	});
+
+	test('Opened files are listed most recent first', () => {
+		assert.deepStrictEqual(historyPaths(manager), ['/repo/src/c.ts', '/repo/src/b.ts', '/repo/src/a.ts']);
+	});
+
+	test('Removed files are gone from the history', () => {
+		manager.removeFromHistory(uris[1]);
+		assert.deepStrictEqual(historyPaths(manager), ['/repo/src/c.ts', '/repo/src/a.ts']);
+	});
+
+	test('Clearing the history keeps the pinned files', () => {
+		manager.setPinned(uris[0], true);
+		manager.clearHistory();
+		assert.deepStrictEqual(historyPaths(manager), ['/repo/src/a.ts']);
+	});
+
+	test('Opening a pinned file again keeps it pinned', () => {
+		manager.setPinned(uris[0], true);
+		manager.forceAddToHistory(uris[0]);
+		assert.strictEqual(manager.getHistory()[0].pinned, true);
+
+		manager.setPinned(uris[0], false);
+		assert.strictEqual(manager.getHistory()[0].pinned, undefined);
+	});
+
+	test('The oldest files beyond the maximum size are dropped, unless they are pinned', async () => {
+		await configuration().update('maxSize', 2, vscode.ConfigurationTarget.Global);
+		manager.setPinned(uris[0], true);
+		manager.forceAddToHistory(vscode.Uri.file('/repo/src/d.ts'));
+		assert.deepStrictEqual(historyPaths(manager), ['/repo/src/d.ts', '/repo/src/a.ts']);
+	});
+});
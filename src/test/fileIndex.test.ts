@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FileIndexManager } from '../lib/fileIndex';
+
+/**
+ * A file system watcher whose events the tests fire themselves
+ */
+class FakeWatcher {
+	public readonly created = new vscode.EventEmitter<vscode.Uri>();
+	public readonly changed = new vscode.EventEmitter<vscode.Uri>();
+	public readonly deleted = new vscode.EventEmitter<vscode.Uri>();
+	public readonly onDidCreate = this.created.event;
+	public readonly onDidChange = this.changed.event;
+	public readonly onDidDelete = this.deleted.event;
+
+	public dispose(): void {
+		this.created.dispose();
+		this.changed.dispose();
+		this.deleted.dispose();
+	}
+}
+
+/**
+ * Wait for the index to settle, created files are looked up on disk before they are added.
+ * Only the files under the root count, the index has the files of the test workspace as well
+ */
+async function waitForFiles(
+	manager: FileIndexManager,
+	root: string,
+	condition: (paths: string[]) => boolean
+): Promise<string[]> {
+	const getPaths = async () => (await manager.getFiles())
+		.map(uri => uri.fsPath)
+		.filter(filePath => filePath.startsWith(root + path.sep))
+		.sort();
+	for (let attempt = 0; attempt < 100; attempt++) {
+		const paths = await getPaths();
+		if (condition(paths)) {
+			return paths;
+		}
+		await new Promise(resolve => setTimeout(resolve, 10));
+	}
+	return getPaths();
+}
+
+suite('FileIndexManager', () => {
+	let root: string;
+	let watcher: FakeWatcher;
+	let manager: FileIndexManager;
+
+	const createFile = (relativePath: string): vscode.Uri => {
+		const filePath = path.join(root, relativePath);
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		fs.writeFileSync(filePath, '');
+		return vscode.Uri.file(filePath);
+	};
+
+	setup(async () => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'search-preview-index-'));
+		watcher = new FakeWatcher();
+		manager = new FileIndexManager(watcher as unknown as vscode.FileSystemWatcher);
+		await manager.getFiles();
+	});
+
+	teardown(() => {
+		manager.dispose();
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('Created files are added', async () => {
+		const uri = createFile('src/a.ts');
+		watcher.created.fire(uri);
+
+		assert.deepStrictEqual(await waitForFiles(manager, root, paths => paths.length > 0), [uri.fsPath]);
+	});
+
+	test('Excluded files are not added', async () => {
+		watcher.created.fire(createFile('node_modules/pkg/index.js'));
+		const uri = createFile('src/a.ts');
+		watcher.created.fire(uri);
+
+		assert.deepStrictEqual(await waitForFiles(manager, root, paths => paths.length > 0), [uri.fsPath]);
+	});
+
+	test('Deleted files and folders are removed', async () => {
+		const kept = createFile('kept.ts');
+		const uris = [kept, createFile('src/a.ts'), createFile('src/lib/b.ts')];
+		uris.forEach(uri => watcher.created.fire(uri));
+		await waitForFiles(manager, root, paths => paths.length === 3);
+
+		watcher.deleted.fire(vscode.Uri.file(path.join(root, 'src')));
+
+		assert.deepStrictEqual(await waitForFiles(manager, root, paths => paths.length === 1), [kept.fsPath]);
+	});
+
+	test('Renamed files move to their new path', async () => {
+		const oldUri = createFile('old.ts');
+		watcher.created.fire(oldUri);
+		await waitForFiles(manager, root, paths => paths.length === 1);
+
+		fs.renameSync(oldUri.fsPath, path.join(root, 'new.ts'));
+		const newUri = vscode.Uri.file(path.join(root, 'new.ts'));
+		watcher.deleted.fire(oldUri);
+		watcher.created.fire(newUri);
+
+		assert.deepStrictEqual(
+			await waitForFiles(manager, root, paths => paths.includes(newUri.fsPath)),
+			[newUri.fsPath]
+		);
+	});
+
+	test('Files created while rebuilding are kept', async () => {
+		const rebuilt = manager.rebuild();
+		const uri = createFile('src/a.ts');
+		watcher.created.fire(uri);
+		await rebuilt;
+
+		assert.deepStrictEqual(await waitForFiles(manager, root, paths => paths.length > 0), [uri.fsPath]);
+	});
+});
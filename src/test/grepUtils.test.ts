@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseGrepLine } from '../utils/grepUtils';
+
+suite('parseGrepLine', () => {
+	const cwd = path.join(path.sep, 'repo');
+
+	test('ripgrep lines give the file, line and column', () => {
+		assert.deepStrictEqual(parseGrepLine('rg', 'src/a.ts:3:5:let foo = 1;', cwd, 'foo'), {
+			filePath: path.join(cwd, 'src', 'a.ts'),
+			linePos: 2,
+			colPos: 4,
+			lineText: 'let foo = 1;'
+		});
+	});
+
+	test('ripgrep byte columns are converted to characters', () => {
+		// é takes two bytes, so ripgrep reports foo at byte column 12
+		assert.strictEqual(parseGrepLine('rg', 'a.ts:1:12:const é = foo', cwd, 'foo')?.colPos, 10);
+		assert.strictEqual(parseGrepLine('rg', 'a.ts:1:7:日本 foo', cwd, 'foo')?.colPos, 2);
+	});
+
+	test('Lines that are not matches are skipped', () => {
+		assert.strictEqual(parseGrepLine('rg', 'Binary file a.bin matches', cwd, 'foo'), undefined);
+		assert.strictEqual(parseGrepLine('grep', 'grep: a.txt: Permission denied', cwd, 'foo'), undefined);
+	});
+
+	test('grep lines get the column of the first match', () => {
+		assert.deepStrictEqual(parseGrepLine('grep', 'src/a.ts:7:  return foo;', cwd, 'foo'), {
+			filePath: path.join(cwd, 'src', 'a.ts'),
+			linePos: 6,
+			colPos: 9,
+			lineText: '  return foo;'
+		});
+	});
+
+	test('grep columns follow smart case', () => {
+		assert.strictEqual(parseGrepLine('grep', 'a.ts:1:x Foo foo', cwd, 'foo')?.colPos, 2);
+		assert.strictEqual(parseGrepLine('grep', 'a.ts:1:x foo Foo', cwd, 'Foo')?.colPos, 6);
+	});
+
+	test('grep columns follow POSIX regular expression syntax', () => {
+		assert.strictEqual(parseGrepLine('grep', 'a.ts:1:abc 123', cwd, '[[:digit:]]+')?.colPos, 4);
+		// Backslashes are literal in brackets, this is a backslash or a d, not a digit
+		assert.strictEqual(parseGrepLine('grep', 'a.ts:1:1 d', cwd, '[\\d]')?.colPos, 2);
+		assert.strictEqual(parseGrepLine('grep', 'a.ts:1:afoo foo', cwd, '\\<foo')?.colPos, 5);
+	});
+
+	test('grep columns of queries that are no valid pattern default to the start', () => {
+		assert.strictEqual(parseGrepLine('grep', 'a.ts:1:a(b', cwd, 'a(')?.colPos, 0);
+	});
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import ignore = require('ignore');
+import { isIgnoredByIgnoreFiles } from '../utils/ignoreUtils';
+
+suite('isIgnoredByIgnoreFiles', () => {
+	const root = path.join(path.sep, 'repo');
+	const rules = new Map([
+		[root, ignore().add('*.log\nbuild/')],
+		[path.join(root, 'sub'), ignore().add('!keep.log')]
+	]);
+
+	test('Files are ignored by the ignore file of a directory above them', () => {
+		assert.strictEqual(isIgnoredByIgnoreFiles(path.join(root, 'app.log'), rules), true);
+		assert.strictEqual(isIgnoredByIgnoreFiles(path.join(root, 'sub', 'app.log'), rules), true);
+		assert.strictEqual(isIgnoredByIgnoreFiles(path.join(root, 'build', 'main.js'), rules), true);
+		assert.strictEqual(isIgnoredByIgnoreFiles(path.join(root, 'src', 'main.ts'), rules), false);
+	});
+
+	test('Deeper ignore files can re-include what a parent ignores', () => {
+		assert.strictEqual(isIgnoredByIgnoreFiles(path.join(root, 'sub', 'keep.log'), rules), false);
+		assert.strictEqual(isIgnoredByIgnoreFiles(path.join(root, 'keep.log'), rules), true);
+	});
+
+	test('Files outside the directories with ignore files are not ignored', () => {
+		assert.strictEqual(isIgnoredByIgnoreFiles(path.join(path.sep, 'other', 'app.log'), rules), false);
+		assert.strictEqual(isIgnoredByIgnoreFiles(path.join(root, 'app.log'), new Map()), false);
+	});
+});
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { captureLayout, restoreLayout } from '../utils/layoutUtils';
+
+suite('Editor layout snapshots', () => {
+	let root: string;
+
+	const fileUri = (name: string): vscode.Uri => vscode.Uri.file(path.join(root, name));
+	const open = (name: string, preview: boolean): Thenable<vscode.TextEditor> =>
+		vscode.window.showTextDocument(fileUri(name), { preview, viewColumn: vscode.ViewColumn.One });
+	const tabLabels = (): string[] => vscode.window.tabGroups.activeTabGroup.tabs.map(tab => tab.label);
+	const activeLabel = (): string | undefined => vscode.window.tabGroups.activeTabGroup.activeTab?.label;
+
+	suiteSetup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'search-preview-layout-'));
+		for (const name of ['a.txt', 'b.txt', 'c.txt', 'd.txt']) {
+			fs.writeFileSync(path.join(root, name), `${name}\n`.repeat(200));
+		}
+	});
+
+	setup(async () => {
+		await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+	});
+
+	suiteTeardown(async () => {
+		await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('Tabs opened after the snapshot are closed', async () => {
+		await open('a.txt', false);
+		await open('b.txt', false);
+		const snapshot = captureLayout();
+
+		await open('c.txt', false);
+		await open('d.txt', true);
+		await restoreLayout(snapshot);
+
+		assert.deepStrictEqual(tabLabels(), ['a.txt', 'b.txt']);
+		assert.strictEqual(activeLabel(), 'b.txt');
+	});
+
+	test('A replaced preview tab is reopened where it was', async () => {
+		await open('a.txt', false);
+		await open('b.txt', true);
+		await open('c.txt', false);
+		const snapshot = captureLayout();
+
+		// Previewing another file takes over the preview tab
+		await open('d.txt', true);
+		assert.ok(!tabLabels().includes('b.txt'));
+		await restoreLayout(snapshot);
+
+		assert.deepStrictEqual(tabLabels(), ['a.txt', 'b.txt', 'c.txt']);
+		assert.strictEqual(activeLabel(), 'c.txt');
+	});
+
+	test('Selections of the visible editors are restored', async () => {
+		const editor = await open('a.txt', false);
+		editor.selection = new vscode.Selection(10, 2, 10, 5);
+		const snapshot = captureLayout();
+
+		editor.selection = new vscode.Selection(150, 0, 150, 0);
+		await restoreLayout(snapshot);
+
+		const restored = vscode.window.activeTextEditor!;
+		assert.strictEqual(restored.document.uri.toString(), fileUri('a.txt').toString());
+		assert.ok(restored.selection.isEqual(new vscode.Selection(10, 2, 10, 5)));
+	});
+});
@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { checkPreview, formatFileSize } from '../utils/previewUtils';
+
+suite('formatFileSize', () => {
+	test('Sizes below a kilobyte are in bytes', () => {
+		assert.strictEqual(formatFileSize(0), '0 B');
+		assert.strictEqual(formatFileSize(1023), '1023 B');
+	});
+
+	test('Larger sizes get the largest unit with one decimal', () => {
+		assert.strictEqual(formatFileSize(1024), '1.0 KB');
+		assert.strictEqual(formatFileSize(12.3 * 1024 * 1024), '12.3 MB');
+		assert.strictEqual(formatFileSize(2 * 1024 ** 5), '2048.0 TB');
+	});
+});
+
+suite('checkPreview', () => {
+	let root: string;
+	const configuration = () => vscode.workspace.getConfiguration('searchPreview.preview');
+	const writeFile = (name: string, content: string | Buffer): vscode.Uri => {
+		const filePath = path.join(root, name);
+		fs.writeFileSync(filePath, content);
+		return vscode.Uri.file(filePath);
+	};
+
+	suiteSetup(async () => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'search-preview-check-'));
+		// About 10 KB
+		await configuration().update('maxFileSize', 0.01, vscode.ConfigurationTarget.Global);
+	});
+
+	suiteTeardown(async () => {
+		await configuration().update('maxFileSize', undefined, vscode.ConfigurationTarget.Global);
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('Text files within the size limit are previewed', async () => {
+		const check = await checkPreview(writeFile('a.ts', 'const a = 1;\n'));
+		assert.strictEqual(check.skipReason, undefined);
+		assert.strictEqual(check.size, 13);
+	});
+
+	test('Files over the size limit are not', async () => {
+		const check = await checkPreview(writeFile('large.txt', 'x'.repeat(20 * 1024)));
+		assert.strictEqual(check.skipReason, 'tooLarge');
+		assert.strictEqual(check.size, 20 * 1024);
+	});
+
+	test('Files with a NUL byte are binary', async () => {
+		const check = await checkPreview(writeFile('data.bin', Buffer.from([1, 2, 0, 3])));
+		assert.strictEqual(check.skipReason, 'binary');
+	});
+
+	test('Images are previewed even though they are binary', async () => {
+		const check = await checkPreview(writeFile('image.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 0])));
+		assert.strictEqual(check.skipReason, undefined);
+	});
+
+	test('A size limit of 0 previews files of any size', async () => {
+		await configuration().update('maxFileSize', 0, vscode.ConfigurationTarget.Global);
+		try {
+			const check = await checkPreview(writeFile('large.txt', 'x'.repeat(20 * 1024)));
+			assert.strictEqual(check.skipReason, undefined);
+		} finally {
+			await configuration().update('maxFileSize', 0.01, vscode.ConfigurationTarget.Global);
+		}
+	});
+});
@@ -0,0 +1,108 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { SearchQuickPickItem } from '../types';
+import { QueryHistoryManager } from '../lib/queryHistory';
+import { getPickerState } from '../lib/quickOpenProvider';
+
+/**
+ * Workspace state that lives in memory
+ */
+class MemoryMemento {
+	private values = new Map<string, unknown>();
+
+	public keys(): readonly string[] {
+		return Array.from(this.values.keys());
+	}
+
+	public get<T>(key: string, defaultValue?: T): T | undefined {
+		return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+	}
+
+	public async update(key: string, value: unknown): Promise<void> {
+		this.values.set(key, JSON.parse(JSON.stringify(value)));
+	}
+}
+
+suite('QueryHistoryManager', () => {
+	let storage: MemoryMemento;
+	const createManager = () => new QueryHistoryManager({ workspaceState: storage } as unknown as vscode.ExtensionContext);
+
+	setup(() => {
+		storage = new MemoryMemento();
+	});
+
+	test('Queries are listed most recent first', () => {
+		const manager = createManager();
+		manager.addQuery('grep', 'foo');
+		manager.addQuery('grep', 'bar');
+		assert.deepStrictEqual(manager.getQueries('grep'), ['bar', 'foo']);
+	});
+
+	test('A query used again moves to the front instead of repeating', () => {
+		const manager = createManager();
+		['foo', 'bar', 'foo'].forEach(query => manager.addQuery('grep', query));
+		assert.deepStrictEqual(manager.getQueries('grep'), ['foo', 'bar']);
+	});
+
+	test('Empty queries are not recorded', () => {
+		const manager = createManager();
+		manager.addQuery('standard', '');
+		manager.addQuery('standard', '   ');
+		assert.deepStrictEqual(manager.getQueries('standard'), []);
+	});
+
+	test('Every picker mode has its own history', () => {
+		const manager = createManager();
+		manager.addQuery('grep', 'foo');
+		manager.addQuery('custom:tests', 'bar');
+		assert.deepStrictEqual(manager.getQueries('grep'), ['foo']);
+		assert.deepStrictEqual(manager.getQueries('custom:tests'), ['bar']);
+		assert.deepStrictEqual(manager.getQueries('standard'), []);
+	});
+
+	test('Only the most recent 50 queries are kept', () => {
+		const manager = createManager();
+		for (let i = 0; i < 60; i++) {
+			manager.addQuery('grep', `query ${i}`);
+		}
+		const queries = manager.getQueries('grep');
+		assert.strictEqual(queries.length, 50);
+		assert.strictEqual(queries[0], 'query 59');
+		assert.strictEqual(queries[49], 'query 10');
+	});
+
+	test('Queries are restored from the workspace state', () => {
+		createManager().addQuery('grep', 'foo');
+		assert.deepStrictEqual(createManager().getQueries('grep'), ['foo']);
+	});
+});
+
+suite('getPickerState', () => {
+	const items: SearchQuickPickItem[] = [{ label: 'a.ts' }, { label: 'b.ts' }];
+	const createQuickPick = (value: string) => ({
+		value,
+		items,
+		activeItems: [items[1]],
+		selectedItems: [items[0]]
+	}) as unknown as vscode.QuickPick<SearchQuickPickItem>;
+
+	test('The query, results, active and selected items and scope are kept', () => {
+		const scope = vscode.Uri.file('/repo/src');
+		assert.deepStrictEqual(getPickerState('grep', createQuickPick('foo'), scope), {
+			mode: 'grep',
+			value: 'foo',
+			items,
+			activeItem: items[1],
+			selectedItems: [items[0]],
+			scope
+		});
+	});
+
+	test('A query handed to the command palette is not resumed', () => {
+		assert.strictEqual(getPickerState('standard', createQuickPick('>reload')), undefined);
+	});
+
+	test('Queries starting with > are only commands in the standard picker', () => {
+		assert.strictEqual(getPickerState('grep', createQuickPick('>reload'))?.value, '>reload');
+	});
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { FileMatch } from '../types';
+import { rankByFrecency } from '../utils/rankingUtils';
+
+function match(filePath: string, score?: number): FileMatch {
+	return { uri: vscode.Uri.file(filePath), score };
+}
+
+function paths(matches: FileMatch[]): string[] {
+	return matches.map(fileMatch => fileMatch.uri.path);
+}
+
+suite('rankByFrecency', () => {
+	const noFrecency = () => 0;
+
+	test('Without frecency or proximity the matcher\'s ranking is kept', () => {
+		const matches = [match('/repo/a.ts', 0.9), match('/repo/b.ts', 0.9), match('/repo/c.ts', 0.5)];
+		assert.deepStrictEqual(paths(rankByFrecency(matches, noFrecency)), ['/repo/a.ts', '/repo/b.ts', '/repo/c.ts']);
+	});
+
+	test('Frequently opened files move above close matches', () => {
+		const matches = [match('/repo/a.ts', 0.9), match('/repo/b.ts', 0.85)];
+		const frecency = (uri: vscode.Uri) => uri.path === '/repo/b.ts' ? 10 : 0;
+		assert.deepStrictEqual(paths(rankByFrecency(matches, frecency)), ['/repo/b.ts', '/repo/a.ts']);
+	});
+
+	test('Frecency does not overrule a much better match', () => {
+		const matches = [match('/repo/a.ts', 0.9), match('/repo/b.ts', 0.5)];
+		const frecency = (uri: vscode.Uri) => uri.path === '/repo/b.ts' ? 10 : 0;
+		assert.deepStrictEqual(paths(rankByFrecency(matches, frecency)), ['/repo/a.ts', '/repo/b.ts']);
+	});
+
+	test('Files next to the editor the search started from move up', () => {
+		const matches = [match('/repo/lib/a.ts', 0.9), match('/repo/src/b.ts', 0.88)];
+		const originDirectory = vscode.Uri.file('/repo/src').fsPath;
+		assert.deepStrictEqual(
+			paths(rankByFrecency(matches, noFrecency, originDirectory)),
+			['/repo/src/b.ts', '/repo/lib/a.ts']
+		);
+	});
+
+	test('Matches without scores are ranked by their position', () => {
+		const matches = Array.from({ length: 10 }, (_, i) => match(`/repo/${i}.ts`));
+		const frecency = (uri: vscode.Uri) => uri.path === '/repo/1.ts' ? 10 : 0;
+		assert.deepStrictEqual(paths(rankByFrecency(matches, frecency)).slice(0, 3), ['/repo/1.ts', '/repo/0.ts', '/repo/2.ts']);
+	});
+});
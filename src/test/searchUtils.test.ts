@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import {
+	buildOccurrencePattern,
+	filterFilesByDirectory,
+	filterFilesByFolder,
+	getDirectories,
+	parseFolderQuery,
+	parseLineQuery
+} from '../utils/searchUtils';
+
+suite('parseLineQuery', () => {
+	test('Queries without a line are left alone', () => {
+		assert.deepStrictEqual(parseLineQuery('src/foo.ts'), { query: 'src/foo.ts' });
+		assert.deepStrictEqual(parseLineQuery('foo:bar'), { query: 'foo:bar' });
+	});
+
+	test('Line and column are split off zero based', () => {
+		assert.deepStrictEqual(parseLineQuery('foo.ts:42'), { query: 'foo.ts', linePos: 41, colPos: 0 });
+		assert.deepStrictEqual(parseLineQuery('foo.ts:42:7'), { query: 'foo.ts', linePos: 41, colPos: 6 });
+	});
+
+	test('A bare line goes to the line in the current file', () => {
+		assert.deepStrictEqual(parseLineQuery(':10'), { query: '', linePos: 9, colPos: 0 });
+	});
+
+	test('Line and column 0 are clamped to the first', () => {
+		assert.deepStrictEqual(parseLineQuery('foo.ts:0:0'), { query: 'foo.ts', linePos: 0, colPos: 0 });
+	});
+});
+
+suite('parseFolderQuery', () => {
+	test('A prefix that is not a workspace folder stays in the query', () => {
+		assert.deepStrictEqual(parseFolderQuery('no-such-folder:foo'), { query: 'no-such-folder:foo' });
+	});
+
+	test('Paths and line queries are not folder prefixes', () => {
+		assert.deepStrictEqual(parseFolderQuery('src/foo.ts:12'), { query: 'src/foo.ts:12' });
+		assert.deepStrictEqual(parseFolderQuery('foo.ts'), { query: 'foo.ts' });
+	});
+
+	test('The name of a workspace folder is split off, whatever its case', () => {
+		const folder = vscode.workspace.workspaceFolders![0];
+		assert.deepStrictEqual(parseFolderQuery(`${folder.name.toUpperCase()}:foo`), { folder, query: 'foo' });
+	});
+});
+
+suite('filterFilesByFolder', () => {
+	const folder = (folderPath: string): vscode.WorkspaceFolder => ({ uri: vscode.Uri.file(folderPath), name: path.basename(folderPath), index: 0 });
+
+	test('Only files inside the folder are kept', () => {
+		const files = ['/repo/app/a.ts', '/repo/lib/b.ts', '/repo/app/src/c.ts'].map(file => vscode.Uri.file(file));
+		assert.deepStrictEqual(filterFilesByFolder(files, folder('/repo/app')), [files[0], files[2]]);
+	});
+
+	test('Folders sharing the start of their name are told apart', () => {
+		const files = ['/repo/app/a.ts', '/repo/app-server/b.ts'].map(file => vscode.Uri.file(file));
+		assert.deepStrictEqual(filterFilesByFolder(files, folder('/repo/app')), [files[0]]);
+	});
+});
+
+suite('buildOccurrencePattern', () => {
+	test('Lowercase queries ignore case, like ripgrep\'s smart case', () => {
+		const pattern = buildOccurrencePattern('foo');
+		assert.strictEqual(pattern.flags, 'gi');
+		assert.deepStrictEqual('Foo foo FOO'.match(pattern), ['Foo', 'foo', 'FOO']);
+	});
+
+	test('Queries with uppercase characters match case', () => {
+		const pattern = buildOccurrencePattern('Foo');
+		assert.strictEqual(pattern.flags, 'g');
+		assert.deepStrictEqual('Foo foo FOO'.match(pattern), ['Foo']);
+	});
+
+	test('Queries are regular expressions', () => {
+		assert.deepStrictEqual('foo1 foo22'.match(buildOccurrencePattern('foo\\d+')), ['foo1', 'foo22']);
+	});
+
+	test('Invalid regular expressions are matched literally', () => {
+		assert.deepStrictEqual('call(foo'.match(buildOccurrencePattern('call(')), ['call(']);
+	});
+});
+
+suite('getDirectories', () => {
+	// The tests run in a workspace whose files are made up here, getDirectories only looks at the paths
+	const folder = () => vscode.workspace.workspaceFolders![0].uri;
+	const files = (...relativePaths: string[]) => relativePaths.map(relativePath => vscode.Uri.joinPath(folder(), relativePath));
+	const relativePaths = (directories: vscode.Uri[]) => directories
+		.map(directory => path.posix.relative(folder().path, directory.path))
+		.sort();
+
+	test('Every folder on the way to a file is listed once', () => {
+		const directories = getDirectories(files('src/lib/a.ts', 'src/lib/b.ts', 'src/c.ts', 'test/d.ts'));
+		assert.deepStrictEqual(relativePaths(directories), ['src', 'src/lib', 'test']);
+	});
+
+	test('The workspace folder itself is left out', () => {
+		assert.deepStrictEqual(getDirectories(files('README.md')), []);
+	});
+
+	test('Folders of excluded files are left out', () => {
+		const directories = getDirectories(files('node_modules/pkg/index.js', 'src/a.ts'));
+		assert.deepStrictEqual(relativePaths(directories), ['src']);
+	});
+
+	test('Files outside the workspace are left out', () => {
+		assert.deepStrictEqual(getDirectories([vscode.Uri.file(path.join(path.sep, 'elsewhere', 'src', 'a.ts'))]), []);
+	});
+});
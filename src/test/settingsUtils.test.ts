@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { compileGlobs, SettingsManager } from '../utils/settingsUtils';
+
+suite('compileGlobs', () => {
+	test('Patterns with a slash match the whole path', () => {
+		const matches = compileGlobs(['**/dist/**', 'src/*.ts']);
+		assert.strictEqual(matches('packages/app/dist/index.js'), true);
+		assert.strictEqual(matches('src/extension.ts'), true);
+		assert.strictEqual(matches('src/lib/quickOpenProvider.ts'), false);
+	});
+
+	test('Patterns without a slash match the file name in any directory', () => {
+		const matches = compileGlobs(['*.min.js', '.env']);
+		assert.strictEqual(matches('assets/vendor/jquery.min.js'), true);
+		assert.strictEqual(matches('config/.env'), true);
+		assert.strictEqual(matches('src/main.js'), false);
+	});
+
+	test('No patterns match nothing', () => {
+		assert.strictEqual(compileGlobs([])('src/extension.ts'), false);
+	});
+});
+
+suite('Exclude pattern negation', () => {
+	const configuration = () => vscode.workspace.getConfiguration('searchPreview.search');
+
+	suiteSetup(async () => {
+		await configuration().update('excludePatterns', ['**/*.log', '!**/keep.log'], vscode.ConfigurationTarget.Global);
+		SettingsManager.clearExcludeCache();
+	});
+
+	suiteTeardown(async () => {
+		await configuration().update('excludePatterns', undefined, vscode.ConfigurationTarget.Global);
+		SettingsManager.clearExcludeCache();
+	});
+
+	test('Negated patterns re-include files other patterns exclude', () => {
+		assert.strictEqual(SettingsManager.shouldExcludeFile('/repo/logs/app.log'), true);
+		assert.strictEqual(SettingsManager.shouldExcludeFile('/repo/logs/keep.log'), false);
+		assert.strictEqual(SettingsManager.shouldExcludeFile('/repo/src/main.ts'), false);
+	});
+
+	test('Negated patterns and the patterns they override are left out of the file search', () => {
+		const patterns = ['**/node_modules/**', '**/*.log', '!**/keep.log'];
+		assert.strictEqual(SettingsManager.isSearchExcludable('**/node_modules/**', patterns), true);
+		assert.strictEqual(SettingsManager.isSearchExcludable('**/*.log', patterns), false);
+		assert.strictEqual(SettingsManager.isSearchExcludable('!**/keep.log', patterns), false);
+
+		const globPattern = SettingsManager.getGlobExcludePattern();
+		assert.ok(!globPattern.includes('*.log'), globPattern);
+		assert.ok(!globPattern.includes('!'), globPattern);
+	});
+});
@@ -5,18 +5,39 @@ import * as vscode from 'vscode';
  */
 export interface SearchQuickPickItem extends vscode.QuickPickItem {
 	sortByLabel?: boolean;
+	// Open tab the item stands for, in the open editors picker
+	tab?: vscode.Tab;
+	// Folder the item stands for, in the directory picker
+	directory?: vscode.Uri;
+	// Entry the item stands for, in pickers registered through the API or the customPickers setting
+	entry?: PickerEntry;
 	data?: {
 		filePath: string;
+		// Document to open when it isn't a local file, e.g. an untitled or remote document
+		uri?: vscode.Uri;
+		// Version to compare with in the preview, e.g. the file in git HEAD
+		diffUri?: vscode.Uri;
+		// Editor group the file is already open in, it is previewed and opened there
+		viewColumn?: vscode.ViewColumn;
 		searchablePath?: string;
 		fileName?: string;
 		linePos: number;
 		colPos: number;
 		searchText?: string;
-		type: 'file' | 'content';
+		type: 'file' | 'content' | 'symbol';
 		lineText?: string;
+		// Range to highlight in the preview instead of the whole line, e.g. a symbol's name
+		range?: vscode.Range;
+		// Pattern whose occurrences are highlighted throughout the preview, e.g. the live grep query
+		occurrences?: RegExp;
 	};
 }
 
+/**
+ * The kinds of pickers the quick open provider shows
+ */
+export type PickerMode = 'standard' | 'recent' | 'grep' | 'symbols' | 'jumps' | 'git' | 'editors' | 'directories' | `custom:${string}`;
+
 /**
  * Interface for editor history tracking
  */
@@ -26,4 +47,243 @@ export interface EditorHistoryItem {
 	linePos: number;
 	colPos: number;
 	relativePath: string;
-} 
\ No newline at end of file
+	// Pinned entries stay on top of the recent editors list and are never evicted
+	pinned?: boolean;
+}
+
+/**
+ * Editor history as persisted in the workspace state, URIs are stored as strings
+ */
+export interface PersistedEditorHistory {
+	version: number;
+	items: (Omit<EditorHistoryItem, 'uri'> & { uri: string })[];
+}
+
+/**
+ * A location in the jump list
+ */
+export interface JumpLocation {
+	uri: vscode.Uri;
+	linePos: number;
+	colPos: number;
+}
+
+/**
+ * Jump list as persisted in the workspace state, URIs are stored as strings
+ */
+export interface PersistedJumpList {
+	index: number;
+	entries: (Omit<JumpLocation, 'uri'> & { uri: string })[];
+}
+
+/**
+ * Interface for a changed file in a git repository
+ */
+export interface GitChange {
+	uri: vscode.Uri;
+	// Index and working tree status letters, like `git status --short`
+	status: string;
+	// The file in HEAD, unless the file is new
+	headUri?: vscode.Uri;
+	deleted?: boolean;
+}
+
+/**
+ * Interface for frecency tracking of a single file
+ */
+export interface FrecencyEntry {
+	count: number;
+	// Most recent visits, newest first
+	timestamps: number[];
+}
+
+/**
+ * Interface for a single line matched by a content search
+ */
+export interface ContentMatch {
+	filePath: string;
+	linePos: number;
+	colPos: number;
+	lineText: string;
+}
+
+/**
+ * Name of a fuzzy matching backend
+ */
+export type MatcherName = 'fzf' | 'fuzzysort';
+
+/**
+ * Interface for a single fuzzy match result
+ */
+export interface MatchResult {
+	candidate: string;
+	// Match quality between 0 and 1, when the backend reports one
+	score?: number;
+}
+
+/**
+ * Interface for options passed to a fuzzy matcher
+ */
+export interface MatchOptions {
+	// Stops the match, the returned promise rejects with a CancellationError
+	token?: vscode.CancellationToken;
+	// Stop once this many results have been found
+	limit?: number;
+	// Called with each batch of results as they become available, best match first
+	onResults?: (results: MatchResult[]) => void;
+}
+
+/**
+ * Interface for a file matched by a fuzzy file search
+ */
+export interface FileMatch {
+	uri: vscode.Uri;
+	score?: number;
+}
+
+/**
+ * Interface for any item matched by a fuzzy search
+ */
+export interface ItemMatch<T> {
+	item: T;
+	score?: number;
+}
+
+/**
+ * Interface for options passed to a fuzzy search
+ */
+export interface SearchOptions<T> {
+	token?: vscode.CancellationToken;
+	limit?: number;
+	onResults?: (results: T[]) => void;
+}
+
+/**
+ * Interface for a fuzzy matching backend
+ */
+export interface FuzzyMatcher {
+	readonly name: MatcherName;
+	/**
+	 * Match the candidates against the query
+	 * @returns Matching candidates, best match first
+	 */
+	match(candidates: string[], query: string, options?: MatchOptions): Promise<MatchResult[]>;
+}
+
+/**
+ * Interface for a symbol flattened out of a document or workspace symbol provider result
+ */
+export interface SymbolEntry {
+	name: string;
+	containerName?: string;
+	kind: vscode.SymbolKind;
+	uri: vscode.Uri;
+	range: vscode.Range;
+}
+
+/**
+ * Interface for a tab remembered in a layout snapshot
+ */
+export interface TabSnapshot {
+	key: string;
+	// Set for tabs that can be reopened by opening their document
+	uri?: vscode.Uri;
+	isPreview: boolean;
+}
+
+/**
+ * Interface for an editor group remembered in a layout snapshot
+ */
+export interface TabGroupSnapshot {
+	viewColumn: vscode.ViewColumn;
+	tabs: TabSnapshot[];
+	activeTabKey?: string;
+}
+
+/**
+ * Interface for the scroll position and selections of a visible text editor
+ */
+export interface TextEditorSnapshot {
+	uri: vscode.Uri;
+	viewColumn: vscode.ViewColumn;
+	selections: readonly vscode.Selection[];
+	visibleRanges: readonly vscode.Range[];
+}
+
+/**
+ * Interface for the state of the editor groups, taken before a picker previews files
+ */
+export interface EditorLayoutSnapshot {
+	activeViewColumn: vscode.ViewColumn;
+	groups: TabGroupSnapshot[];
+	editors: TextEditorSnapshot[];
+}
+
+/**
+ * Interface for an entry listed by a registered picker, a location in a file
+ */
+export interface PickerEntry {
+	uri: vscode.Uri;
+	// Zero-based line and column to preview and open the file at
+	line?: number;
+	column?: number;
+	// Shown instead of the file name and directory when set
+	label?: string;
+	description?: string;
+	detail?: string;
+}
+
+/**
+ * Interface for an action a registered picker adds to the actions menu of its entries
+ */
+export interface PickerEntryAction {
+	label: string;
+	run(entries: PickerEntry[]): void | Thenable<void>;
+}
+
+/**
+ * Interface for a picker registered through the extension API or the customPickers setting.
+ * It lists entries from its source, filters them, previews the active one and offers actions for them
+ */
+export interface PickerDefinition {
+	id: string;
+	// Placeholder of the picker's input
+	title: string;
+	/**
+	 * Item source: get the entries for a query. With the fuzzy matcher the source is asked once,
+	 * with an empty query, and the entries are filtered as the user types
+	 */
+	getEntries(query: string, token: vscode.CancellationToken): PickerEntry[] | Thenable<PickerEntry[]>;
+	// 'fuzzy' (default) filters the entries with the configured matcher, 'source' asks the source for every query
+	matcher?: 'fuzzy' | 'source';
+	// 'file' (default) previews the entry's file at its line, 'none' disables the preview
+	previewer?: 'file' | 'none';
+	actions?: PickerEntryAction[];
+}
+
+/**
+ * Interface for a picker defined in the searchPreview.customPickers setting, its source is a shell command
+ */
+export interface CustomPickerConfig {
+	id: string;
+	title?: string;
+	// Output lines are files or path:line:col entries, a ${query} placeholder makes it run for every query
+	command: string;
+	// Directory to run the command in, relative to the first workspace folder
+	cwd?: string;
+}
+
+/**
+ * The API returned from the extension's activate function, for other extensions to add pickers
+ */
+export interface SearchPreviewApi {
+	/**
+	 * Add a picker, shown with showPicker or the Custom Pickers command
+	 * @returns Disposable that removes the picker again
+	 */
+	registerPicker(picker: PickerDefinition): vscode.Disposable;
+	/**
+	 * Open a registered picker
+	 */
+	showPicker(id: string): Promise<void>;
+}
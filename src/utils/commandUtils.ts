@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { CustomPickerConfig, PickerDefinition, PickerEntry } from '../types';
+import { checkKillProcess } from './processUtils';
+
+// Placeholder in a custom picker's command that is replaced with the query
+const QUERY_PLACEHOLDER = '${query}';
+
+/**
+ * Quote a value for the platform's shell, so a query is passed to the command as a single argument
+ */
+function quoteShellArgument(value: string): string {
+    if (process.platform === 'win32') {
+        return `"${value.replace(/"/g, '""')}"`;
+    }
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Run a command line in the shell and get its output, the process is killed when the token is cancelled
+ */
+export function runShellCommand(command: string, cwd: string | undefined, token: vscode.CancellationToken): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const shellProcess = exec(command, { cwd, maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+            cancellation.dispose();
+            if (token.isCancellationRequested) {
+                reject(new vscode.CancellationError());
+            } else if (error) {
+                reject(new Error(`${command} failed: ${stderr.trim() || error.message}`));
+            } else {
+                resolve(stdout);
+            }
+        });
+
+        const cancellation = token.onCancellationRequested(() => checkKillProcess([shellProcess]));
+    });
+}
+
+/**
+ * Parse an output line of a custom picker's command: a file path, optionally followed by
+ * a one-based :line and :column, and text that is shown below it like grep output
+ */
+export function parseEntryLine(line: string, cwd: string | undefined): PickerEntry | undefined {
+    const trimmed = line.trim();
+    if (!trimmed) {
+        return undefined;
+    }
+
+    const match = /^(.+?):(\d+)(?::(\d+))?(?::(.*))?$/.exec(trimmed);
+    const filePath = match ? match[1] : trimmed;
+    const absolutePath = path.isAbsolute(filePath) || !cwd ? filePath : path.join(cwd, filePath);
+
+    return {
+        uri: vscode.Uri.file(absolutePath),
+        line: match ? parseInt(match[2], 10) - 1 : undefined,
+        column: match?.[3] ? parseInt(match[3], 10) - 1 : undefined,
+        detail: match?.[4]?.trim() || undefined
+    };
+}
+
+/**
+ * Turn a picker of the customPickers setting into a picker whose item source is its shell command.
+ * Commands with a ${query} placeholder filter themselves and run for every query
+ */
+export function createCommandPicker(config: CustomPickerConfig): PickerDefinition {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const cwd = workspaceFolder && config.cwd ? path.resolve(workspaceFolder, config.cwd) : workspaceFolder;
+    const isLive = config.command.includes(QUERY_PLACEHOLDER);
+
+    return {
+        id: config.id,
+        title: config.title ?? config.id,
+        matcher: isLive ? 'source' : 'fuzzy',
+        getEntries: async (query, token) => {
+            const command = config.command.split(QUERY_PLACEHOLDER).join(quoteShellArgument(query));
+            const output = await runShellCommand(command, cwd, token);
+            return output.split(/\r?\n/)
+                .map(line => parseEntryLine(line, cwd))
+                .filter((entry): entry is PickerEntry => entry !== undefined);
+        }
+    };
+}
@@ -1,7 +1,12 @@
 import * as vscode from 'vscode';
 
+// Most occurrences highlighted in one preview, so huge files with a common query stay responsive
+const MAX_OCCURRENCES = 2000;
+
 export class DecorationManager {
     private lastHighlightDecoration?: vscode.TextEditorDecorationType;
+    private lastRangeDecoration?: vscode.TextEditorDecorationType;
+    private lastOccurrencesDecoration?: vscode.TextEditorDecorationType;
 
     /**
      * Clear all applied decorations
@@ -11,17 +16,71 @@ export class DecorationManager {
             this.lastHighlightDecoration.dispose();
             this.lastHighlightDecoration = undefined;
         }
+        if (this.lastRangeDecoration) {
+            this.lastRangeDecoration.dispose();
+            this.lastRangeDecoration = undefined;
+        }
+        if (this.lastOccurrencesDecoration) {
+            this.lastOccurrencesDecoration.dispose();
+            this.lastOccurrencesDecoration = undefined;
+        }
     }
 
     /**
      * Highlight a specific line in the editor
      */
     public highlightLine(editor: vscode.TextEditor, lineNumber: number): void {
-        const lineRange = editor.document.lineAt(lineNumber).range;
+        // A go-to-line query can point past the end of the file
+        const line = Math.min(Math.max(lineNumber, 0), editor.document.lineCount - 1);
+        const lineRange = editor.document.lineAt(line).range;
         this.lastHighlightDecoration = vscode.window.createTextEditorDecorationType({
-            backgroundColor: new vscode.ThemeColor('editor.selectionBackground'),
-            isWholeLine: true
+            backgroundColor: new vscode.ThemeColor('searchPreview.lineHighlightBackground'),
+            isWholeLine: true,
+            overviewRulerColor: new vscode.ThemeColor('searchPreview.lineHighlightOverviewRuler'),
+            overviewRulerLane: vscode.OverviewRulerLane.Full
         });
         editor.setDecorations(this.lastHighlightDecoration, [lineRange]);
     }
+
+    /**
+     * Highlight a specific range in the editor, along with a fainter highlight of its line
+     */
+    public highlightRange(editor: vscode.TextEditor, range: vscode.Range): void {
+        this.highlightLine(editor, range.start.line);
+        this.lastRangeDecoration = vscode.window.createTextEditorDecorationType({
+            backgroundColor: new vscode.ThemeColor('searchPreview.matchHighlightBackground'),
+            border: '1px solid',
+            borderColor: new vscode.ThemeColor('searchPreview.matchHighlightBorder')
+        });
+        editor.setDecorations(this.lastRangeDecoration, [range]);
+    }
+
+    /**
+     * Highlight every occurrence of a pattern in the editor, with a marker in the overview ruler
+     */
+    public highlightOccurrences(editor: vscode.TextEditor, pattern: RegExp): void {
+        const document = editor.document;
+        const ranges: vscode.Range[] = [];
+
+        for (const match of document.getText().matchAll(pattern)) {
+            // Patterns like `a*` also match the empty string, which can't be highlighted
+            if (match[0].length === 0) {
+                continue;
+            }
+            ranges.push(new vscode.Range(
+                document.positionAt(match.index!),
+                document.positionAt(match.index! + match[0].length)
+            ));
+            if (ranges.length >= MAX_OCCURRENCES) {
+                break;
+            }
+        }
+
+        this.lastOccurrencesDecoration = vscode.window.createTextEditorDecorationType({
+            backgroundColor: new vscode.ThemeColor('searchPreview.occurrenceHighlightBackground'),
+            overviewRulerColor: new vscode.ThemeColor('searchPreview.occurrenceOverviewRuler'),
+            overviewRulerLane: vscode.OverviewRulerLane.Center
+        });
+        editor.setDecorations(this.lastOccurrencesDecoration, ranges);
+    }
 } 
\ No newline at end of file
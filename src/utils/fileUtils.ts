@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { SearchQuickPickItem } from '../types';
+import { logError } from './logUtils';
 
 /**
  * Format the file location path for display
@@ -13,6 +15,54 @@ export function getFileLocation(relativePath: string): string {
 	return '';
 }
 
+/**
+ * Get the path of a file relative to the workspace folder containing it. Unlike the default
+ * asRelativePath it is never prefixed with the folder name, so it reads the same in single
+ * and multi-root workspaces
+ */
+export function getRelativePath(uri: vscode.Uri): string {
+	return vscode.workspace.asRelativePath(uri, false);
+}
+
+/**
+ * Get the document a picker item refers to
+ */
+export function getItemUri(data: NonNullable<SearchQuickPickItem['data']>): vscode.Uri {
+	return data.uri ?? vscode.Uri.file(data.filePath);
+}
+
+/**
+ * Get the folder a search started from a context menu is scoped to: the folder itself, or the
+ * directory of a file. Without a resource, the directory of the active editor's file
+ */
+export async function getSearchScope(uri?: vscode.Uri): Promise<vscode.Uri | undefined> {
+	const resource = uri ?? vscode.window.activeTextEditor?.document.uri;
+	if (!resource || resource.scheme === 'untitled') {
+		return undefined;
+	}
+
+	try {
+		const stat = await vscode.workspace.fs.stat(resource);
+		if (stat.type & vscode.FileType.Directory) {
+			return resource;
+		}
+	} catch (error) {
+		logError(`Error reading: ${resource.toString()}`, error);
+	}
+	return vscode.Uri.joinPath(resource, '..');
+}
+
+/**
+ * Get the name of the workspace folder containing a file, only in multi-root workspaces
+ * where it is needed to tell files apart
+ */
+export function getWorkspaceFolderName(uri: vscode.Uri): string | undefined {
+	if ((vscode.workspace.workspaceFolders?.length ?? 0) < 2) {
+		return undefined;
+	}
+	return vscode.workspace.getWorkspaceFolder(uri)?.name;
+}
+
 /**
  * Set cursor position in a text editor
  */
@@ -0,0 +1,205 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { GitChange } from '../types';
+import { logError } from './logUtils';
+
+// The parts of the built-in git extension's API we use, see extensions/git/src/api/git.d.ts in VS Code
+interface GitApiChange {
+    uri: vscode.Uri;
+    originalUri: vscode.Uri;
+    status: number;
+}
+
+interface GitApiRepository {
+    state: {
+        indexChanges: GitApiChange[];
+        workingTreeChanges: GitApiChange[];
+        mergeChanges: GitApiChange[];
+        // Only set when untracked changes are shown separately (git.untrackedChanges)
+        untrackedChanges?: GitApiChange[];
+    };
+}
+
+interface GitApi {
+    repositories: GitApiRepository[];
+    toGitUri(uri: vscode.Uri, ref: string): vscode.Uri;
+}
+
+interface GitExtension {
+    enabled: boolean;
+    getAPI(version: 1): GitApi;
+}
+
+// Scheme of the HEAD versions of files served by `git show`, for when the git extension is not available
+export const GIT_HEAD_SCHEME = 'search-preview-head';
+
+// Porcelain status letter of each value of the git API's Status enum
+const STATUS_LETTERS = [
+    'M', 'A', 'D', 'R', 'C', // INDEX_MODIFIED, INDEX_ADDED, INDEX_DELETED, INDEX_RENAMED, INDEX_COPIED
+    'M', 'D', '?', '!', 'A', 'R', 'T', // MODIFIED, DELETED, UNTRACKED, IGNORED, INTENT_TO_ADD, INTENT_TO_RENAME, TYPE_CHANGED
+    'U', 'U', 'U', 'U', 'U', 'U', 'U' // Merge conflicts
+];
+
+/**
+ * Get the git extension's API, undefined when the extension is missing or disabled
+ */
+async function getGitApi(): Promise<GitApi | undefined> {
+    const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    if (!extension) {
+        return undefined;
+    }
+
+    try {
+        const git = extension.isActive ? extension.exports : await extension.activate();
+        return git.enabled ? git.getAPI(1) : undefined;
+    } catch (error) {
+        logError('Error activating the git extension', error);
+        return undefined;
+    }
+}
+
+/**
+ * Add a change to the changes by file, combining the index and working tree status like `git status --short`
+ */
+function addChange(
+    changes: Map<string, GitChange>,
+    uri: vscode.Uri,
+    indexStatus: string,
+    workTreeStatus: string,
+    headUri?: vscode.Uri
+): void {
+    const key = uri.toString();
+    const existing = changes.get(key);
+    const status = existing
+        ? `${existing.status[0].trim() || indexStatus}${existing.status[1].trim() || workTreeStatus}`
+        : `${indexStatus}${workTreeStatus}`;
+
+    changes.set(key, {
+        uri,
+        status,
+        headUri: existing?.headUri ?? headUri,
+        deleted: status.includes('D')
+    });
+}
+
+/**
+ * Get the changes of all repositories from the git extension
+ */
+function getChangesFromApi(git: GitApi): GitChange[] {
+    const changes = new Map<string, GitChange>();
+
+    for (const repository of git.repositories) {
+        const { indexChanges, workingTreeChanges, mergeChanges, untrackedChanges = [] } = repository.state;
+
+        for (const change of indexChanges) {
+            const letter = STATUS_LETTERS[change.status] ?? 'M';
+            // Added files have no version in HEAD to compare with
+            const headUri = letter === 'A' ? undefined : git.toGitUri(change.originalUri, 'HEAD');
+            addChange(changes, change.uri, letter, ' ', headUri);
+        }
+        for (const change of [...workingTreeChanges, ...untrackedChanges]) {
+            const letter = STATUS_LETTERS[change.status] ?? 'M';
+            if (letter === '?') {
+                addChange(changes, change.uri, '?', '?');
+            } else {
+                const headUri = letter === 'A' ? undefined : git.toGitUri(change.originalUri, 'HEAD');
+                addChange(changes, change.uri, ' ', letter, headUri);
+            }
+        }
+        for (const change of mergeChanges) {
+            addChange(changes, change.uri, 'U', 'U', git.toGitUri(change.uri, 'HEAD'));
+        }
+    }
+
+    return Array.from(changes.values());
+}
+
+/**
+ * Run git and get its output
+ */
+function runGit(args: string[], cwd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 }, (error, stdout) => {
+            if (error) {
+                reject(error);
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+/**
+ * Get the document of a file's version in HEAD, getHeadContent serves it. It keeps the
+ * file's path, so the tab title and the language match the file
+ * @param relativePath Path of the file in the repository, as git prints it
+ */
+function createHeadUri(root: string, relativePath: string): vscode.Uri {
+    return vscode.Uri.from({
+        scheme: GIT_HEAD_SCHEME,
+        path: vscode.Uri.file(path.join(root, relativePath)).path,
+        query: JSON.stringify({ root, relativePath })
+    });
+}
+
+/**
+ * Get the content of a file's version in HEAD, for the documents of the GIT_HEAD_SCHEME
+ */
+export function getHeadContent(uri: vscode.Uri): Promise<string> {
+    const { root, relativePath }: { root: string; relativePath: string } = JSON.parse(uri.query);
+    return runGit(['show', `HEAD:${relativePath}`], root);
+}
+
+/**
+ * Get the changes of the repositories of all workspace folders by running `git status`,
+ * for when the git extension is not available. Their HEAD versions are read with `git show`
+ */
+async function getChangesFromCli(): Promise<GitChange[]> {
+    const changes = new Map<string, GitChange>();
+    const repositoryRoots = new Set<string>();
+
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        try {
+            const root = (await runGit(['rev-parse', '--show-toplevel'], folder.uri.fsPath)).trim();
+            if (repositoryRoots.has(root)) {
+                continue;
+            }
+            repositoryRoots.add(root);
+
+            // -z keeps paths unquoted, renames are followed by their original path
+            const entries = (await runGit(['status', '--porcelain=v1', '-z', '--untracked-files=all'], root)).split('\0');
+            for (let i = 0; i < entries.length; i++) {
+                const entry = entries[i];
+                if (entry.length < 4) {
+                    continue;
+                }
+
+                const status = entry.slice(0, 2);
+                const relativePath = entry.slice(3);
+                const originalPath = /[RC]/.test(status) ? entries[++i] : relativePath;
+                // Added and untracked files have no version in HEAD to compare with
+                const headUri = /[A?!]/.test(status) ? undefined : createHeadUri(root, originalPath);
+                addChange(changes, vscode.Uri.file(path.join(root, relativePath)), status[0], status[1], headUri);
+            }
+        } catch (error) {
+            // Not a repository, or git is not installed
+            logError(`Could not get git status of ${folder.uri.fsPath}`, error);
+        }
+    }
+
+    return Array.from(changes.values());
+}
+
+/**
+ * Get the modified, staged and untracked files of the workspace repositories
+ */
+export async function getChangedFiles(): Promise<GitChange[]> {
+    const git = await getGitApi();
+
+    // The git extension may not have discovered any repository yet
+    if (git && git.repositories.length > 0) {
+        return getChangesFromApi(git);
+    }
+    return getChangesFromCli();
+}
@@ -0,0 +1,287 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { ContentMatch } from '../types';
+import { SettingsManager } from './settingsUtils';
+import { checkKillProcess } from './processUtils';
+
+type GrepTool = 'rg' | 'grep';
+
+// Detected on first use: ripgrep when it is on PATH, plain grep otherwise
+let grepTool: GrepTool | undefined;
+
+// JavaScript equivalents of the POSIX character classes grep understands inside brackets
+const POSIX_CLASSES: Record<string, string> = {
+    alpha: 'a-zA-Z',
+    digit: '0-9',
+    alnum: 'a-zA-Z0-9',
+    upper: 'A-Z',
+    lower: 'a-z',
+    xdigit: '0-9A-Fa-f',
+    space: ' \\t\\n\\r\\f\\v',
+    blank: ' \\t',
+    punct: '!-\\/:-@\\[-`{-~',
+    cntrl: '\\x00-\\x1f\\x7f',
+    print: '\\x20-\\x7e',
+    graph: '\\x21-\\x7e'
+};
+
+/**
+ * Whether a query is searched regardless of case, like ripgrep's --smart-case:
+ * only queries without uppercase characters are
+ */
+function isCaseInsensitive(searchText: string): boolean {
+    return searchText === searchText.toLowerCase();
+}
+
+/**
+ * Build the command line arguments for the given tool, honouring the exclude settings
+ */
+function buildGrepArgs(tool: GrepTool, searchText: string): string[] {
+    // Negated patterns and the ones they override are left to shouldExcludeFile, a positive
+    // glob would make ripgrep search nothing but the files it matches
+    const patterns = [
+        ...SettingsManager.getExcludeDirectories().map(dir => `**/${dir}/**`),
+        ...SettingsManager.getExcludePatterns()
+    ];
+    const excludeDirectories = SettingsManager.getExcludeDirectories()
+        .filter(dir => SettingsManager.isSearchExcludable(`**/${dir}/**`, patterns));
+    const excludePatterns = SettingsManager.getExcludePatterns()
+        .filter(pattern => SettingsManager.isSearchExcludable(pattern, patterns));
+
+    if (tool === 'rg') {
+        return [
+            '--vimgrep',
+            '--color', 'never',
+            '--smart-case',
+            // ripgrep honours ignore files by default, unless they are opted out of
+            ...(SettingsManager.getUseIgnoreFiles() ? [] : ['--no-ignore']),
+            '--max-columns', '500',
+            ...excludeDirectories.map(dir => `--glob=!${dir}`),
+            ...excludePatterns.map(pattern => `--glob=!${pattern}`),
+            '--', searchText, '.'
+        ];
+    }
+
+    // grep only understands basename globs, so strip any leading directory part
+    return [
+        '-rnIH',
+        '--color=never',
+        '-E',
+        ...(isCaseInsensitive(searchText) ? ['-i'] : []),
+        ...excludeDirectories.map(dir => `--exclude-dir=${dir}`),
+        ...excludePatterns.map(pattern => `--exclude=${path.posix.basename(pattern)}`),
+        '-e', searchText, '.'
+    ];
+}
+
+/**
+ * Translate a POSIX extended regular expression, as grep -E reads it, into a JavaScript one.
+ * Inside brackets, character classes like [:alpha:] are expanded and backslashes are literal.
+ * GNU grep's \< and \> word boundaries become \b
+ */
+function toJavaScriptPattern(searchText: string): string {
+    let pattern = '';
+    for (let i = 0; i < searchText.length; i++) {
+        const char = searchText[i];
+        if (char === '\\') {
+            const escaped = searchText[++i] ?? '\\';
+            pattern += escaped === '<' || escaped === '>' ? '\\b' : `\\${escaped}`;
+            continue;
+        }
+        if (char !== '[') {
+            pattern += char;
+            continue;
+        }
+
+        // A bracket expression, a ] right after the opening bracket (or its ^) is literal
+        pattern += '[';
+        let j = i + 1;
+        if (searchText[j] === '^') {
+            pattern += '^';
+            j++;
+        }
+        if (searchText[j] === ']') {
+            pattern += '\\]';
+            j++;
+        }
+        for (; j < searchText.length && searchText[j] !== ']'; j++) {
+            const classMatch = /^\[:(\w+):\]/.exec(searchText.slice(j));
+            if (classMatch && POSIX_CLASSES[classMatch[1]]) {
+                pattern += POSIX_CLASSES[classMatch[1]];
+                j += classMatch[0].length - 1;
+            } else if (searchText[j] === '\\' || searchText[j] === '[') {
+                pattern += `\\${searchText[j]}`;
+            } else {
+                pattern += searchText[j];
+            }
+        }
+        pattern += ']';
+        i = j;
+    }
+    return pattern;
+}
+
+/**
+ * Find the column of the first match in a line, grep does not report it. Both grep and
+ * JavaScript report the leftmost match, so with the same syntax and case rule the columns agree
+ */
+function findMatchColumn(lineText: string, searchText: string): number {
+    try {
+        const flags = isCaseInsensitive(searchText) ? 'i' : '';
+        const match = new RegExp(toJavaScriptPattern(searchText), flags).exec(lineText);
+        return match ? match.index : 0;
+    } catch {
+        return 0;
+    }
+}
+
+/**
+ * Convert a byte offset in a line, as ripgrep reports columns, into a character index
+ */
+function byteToCharIndex(lineText: string, byteOffset: number): number {
+    return Buffer.from(lineText, 'utf8').subarray(0, byteOffset).toString('utf8').length;
+}
+
+/**
+ * Parse a single output line of rg (path:line:col:text) or grep (path:line:text)
+ */
+export function parseGrepLine(tool: GrepTool, line: string, cwd: string, searchText: string): ContentMatch | undefined {
+    const match = tool === 'rg'
+        ? /^(.+?):(\d+):(\d+):(.*)$/.exec(line)
+        : /^(.+?):(\d+):(.*)$/.exec(line);
+    if (!match) {
+        return undefined;
+    }
+
+    const lineText = tool === 'rg' ? match[4] : match[3];
+    const colPos = tool === 'rg'
+        ? byteToCharIndex(lineText, parseInt(match[3], 10) - 1)
+        : findMatchColumn(lineText, searchText);
+
+    return {
+        filePath: path.join(cwd, match[1]),
+        linePos: parseInt(match[2], 10) - 1,
+        colPos: Math.max(colPos, 0),
+        lineText
+    };
+}
+
+/**
+ * Run the grep tool inside one folder, reporting matches as they arrive
+ * @returns Promise that resolves to the number of matches reported
+ */
+function runGrep(
+    tool: GrepTool,
+    searchText: string,
+    cwd: string,
+    onMatches: (matches: ContentMatch[]) => void,
+    token: vscode.CancellationToken
+): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const spawnProcess = spawn(tool, buildGrepArgs(tool, searchText), {
+            cwd,
+            stdio: ['ignore', 'pipe', 'pipe']
+        });
+        let spawnRegistry = [spawnProcess];
+        
+        // Stop reading as soon as the search is cancelled or has enough results
+        const cancellation = token.onCancellationRequested(() => {
+            spawnRegistry = checkKillProcess(spawnRegistry);
+        });
+
+        let matchCount = 0;
+        let remainder = '';
+        let errorOutput = '';
+
+        spawnProcess.stdout.on('data', (data: Buffer) => {
+            // Output can be split anywhere, keep the incomplete last line for the next chunk
+            const lines = (remainder + data.toString()).split('\n');
+            remainder = lines.pop() ?? '';
+
+            const matches: ContentMatch[] = [];
+            for (const line of lines) {
+                const match = parseGrepLine(tool, line, cwd, searchText);
+                if (match && !SettingsManager.shouldExcludeFile(match.filePath)) {
+                    matches.push(match);
+                }
+            }
+            if (matches.length === 0) {
+                return;
+            }
+
+            matchCount += matches.length;
+            onMatches(matches);
+        });
+
+        spawnProcess.stderr.on('data', (data: Buffer) => {
+            errorOutput += data.toString();
+        });
+
+        spawnProcess.on('error', (error) => {
+            cancellation.dispose();
+            reject(error);
+        });
+
+        spawnProcess.on('close', (code: number | null) => {
+            cancellation.dispose();
+            // Exit code 1 means nothing matched, null means we killed it
+            if (code === 0 || code === 1 || code === null || matchCount > 0) {
+                resolve(matchCount);
+            } else {
+                reject(new Error(`${tool} exited with code ${code}: ${errorOutput.trim()}`));
+            }
+        });
+    });
+}
+
+/**
+ * Search the contents of all workspace folders with ripgrep, or grep when ripgrep is missing
+ * @param searchText Search query (regular expression)
+ * @param onResults Called with each batch of matches as they stream in
+ * @param token Cancels the search and kills the running processes
+ * @param scope Folder to search instead of the workspace folders
+ */
+export async function searchFileContents(
+    searchText: string,
+    onResults: (matches: ContentMatch[]) => void,
+    token?: vscode.CancellationToken,
+    scope?: vscode.Uri
+): Promise<void> {
+    const tool = grepTool ?? 'rg';
+    const folders = scope ? [scope] : (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri);
+    let remaining = SettingsManager.getMaxResults();
+
+    // Stops every folder's process, either on cancellation or once we have enough results
+    const stopSource = new vscode.CancellationTokenSource();
+    const cancellation = token?.onCancellationRequested(() => stopSource.cancel());
+
+    const onMatches = (matches: ContentMatch[]) => {
+        if (stopSource.token.isCancellationRequested) {
+            return;
+        }
+        const accepted = matches.slice(0, remaining);
+        remaining -= accepted.length;
+        onResults(accepted);
+        if (remaining <= 0) {
+            stopSource.cancel();
+        }
+    };
+
+    try {
+        await Promise.all(folders.map(folder =>
+            runGrep(tool, searchText, folder.fsPath, onMatches, stopSource.token)
+        ));
+        grepTool = tool;
+    } catch (error) {
+        if (tool === 'rg' && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+            // ripgrep is not installed, fall back to grep
+            grepTool = 'grep';
+            return searchFileContents(searchText, onResults, token, scope);
+        }
+        throw error;
+    } finally {
+        cancellation?.dispose();
+        stopSource.dispose();
+    }
+}
@@ -0,0 +1,74 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import ignore = require('ignore');
+import { logError } from './logUtils';
+
+// Rules of the .gitignore and .ignore files, by the directory containing them
+let ignoreRules = new Map<string, ignore.Ignore>();
+
+/**
+ * Read all .gitignore and .ignore files of the workspace, including nested ones
+ */
+export async function loadIgnoreFiles(): Promise<void> {
+    const rules = new Map<string, ignore.Ignore>();
+
+    try {
+        // Ignore files inside dependencies and the git directory don't apply to the workspace
+        const files = await vscode.workspace.findFiles('**/{.gitignore,.ignore}', '**/{node_modules,.git}/**');
+        for (const file of files) {
+            const content = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+            const directory = path.dirname(file.fsPath);
+            rules.set(directory, (rules.get(directory) ?? ignore()).add(content));
+        }
+    } catch (error) {
+        logError('Error loading ignore files', error);
+    }
+
+    ignoreRules = rules;
+}
+
+/**
+ * Drop the loaded ignore files
+ */
+export function clearIgnoreFiles(): void {
+    ignoreRules = new Map();
+}
+
+/**
+ * Check if a file is ignored by the ignore files of the directories above it. Like git,
+ * rules of deeper directories take precedence, so they can re-include what a parent ignores
+ * @param rules Rules by the directory containing them, the loaded ignore files by default
+ */
+export function isIgnoredByIgnoreFiles(filePath: string, rules = ignoreRules): boolean {
+    if (rules.size === 0) {
+        return false;
+    }
+
+    // Collect the ancestors from the file's directory up to the root, then check them top down
+    const ancestors: string[] = [];
+    for (let directory = path.dirname(filePath); ; directory = path.dirname(directory)) {
+        ancestors.unshift(directory);
+        if (path.dirname(directory) === directory) {
+            break;
+        }
+    }
+
+    let ignored = false;
+    for (const directory of ancestors) {
+        const directoryRules = rules.get(directory);
+        if (!directoryRules) {
+            continue;
+        }
+
+        // The ignore package wants relative paths with forward slashes
+        const relativePath = path.relative(directory, filePath).split(path.sep).join('/');
+        const result = directoryRules.test(relativePath);
+        if (result.ignored) {
+            ignored = true;
+        } else if (result.unignored) {
+            ignored = false;
+        }
+    }
+
+    return ignored;
+}
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import { EditorLayoutSnapshot, TabGroupSnapshot } from '../types';
+import { activateTab, getTabKey } from './tabUtils';
+import { logError } from './logUtils';
+
+/**
+ * Get the document to open to bring a tab back, diffs and tabs without a document can't be reopened
+ */
+function getReopenableUri(tab: vscode.Tab): vscode.Uri | undefined {
+    const input = tab.input;
+    if (input instanceof vscode.TabInputText ||
+        input instanceof vscode.TabInputCustom ||
+        input instanceof vscode.TabInputNotebook) {
+        return input.uri;
+    }
+    return undefined;
+}
+
+function findGroup(viewColumn: vscode.ViewColumn): vscode.TabGroup | undefined {
+    return vscode.window.tabGroups.all.find(group => group.viewColumn === viewColumn);
+}
+
+/**
+ * Take a snapshot of the editor groups: their tabs, which tab is active in each
+ * and where the visible text editors are scrolled to
+ */
+export function captureLayout(): EditorLayoutSnapshot {
+    const editors = vscode.window.visibleTextEditors.filter(editor => editor.viewColumn !== undefined);
+
+    return {
+        activeViewColumn: vscode.window.tabGroups.activeTabGroup.viewColumn,
+        groups: vscode.window.tabGroups.all.map(group => ({
+            viewColumn: group.viewColumn,
+            tabs: group.tabs.map(tab => ({
+                key: getTabKey(tab),
+                uri: getReopenableUri(tab),
+                isPreview: tab.isPreview
+            })),
+            activeTabKey: group.activeTab && getTabKey(group.activeTab)
+        })),
+        editors: editors.map(editor => ({
+            uri: editor.document.uri,
+            viewColumn: editor.viewColumn!,
+            selections: editor.selections,
+            visibleRanges: editor.visibleRanges
+        }))
+    };
+}
+
+/**
+ * Close the tabs of a group that were opened after the snapshot, and reopen the ones that were
+ * replaced, like a preview tab taken over by a previewed file, at their place among the others.
+ * Unsaved tabs are left open
+ */
+async function restoreTabs(groupSnapshot: TabGroupSnapshot): Promise<void> {
+    const group = findGroup(groupSnapshot.viewColumn);
+    if (!group) {
+        return;
+    }
+
+    const snapshotKeys = new Set(groupSnapshot.tabs.map(tab => tab.key));
+    const newTabs = group.tabs.filter(tab => !snapshotKeys.has(getTabKey(tab)) && !tab.isDirty);
+    if (newTabs.length > 0) {
+        await vscode.window.tabGroups.close(newTabs, true);
+    }
+
+    const currentKeys = new Set((findGroup(groupSnapshot.viewColumn)?.tabs ?? []).map(getTabKey));
+    // Tabs before the reopened one that are open, it goes right after them
+    let position = 0;
+    for (const tab of groupSnapshot.tabs) {
+        if (currentKeys.has(tab.key)) {
+            position++;
+            continue;
+        }
+        if (!tab.uri) {
+            continue;
+        }
+
+        try {
+            // Moving only works on the active editor, the active tabs are restored afterwards
+            await vscode.commands.executeCommand('vscode.open', tab.uri, {
+                viewColumn: groupSnapshot.viewColumn,
+                preview: tab.isPreview,
+                preserveFocus: false
+            });
+            await vscode.commands.executeCommand('moveActiveEditor', { to: 'position', by: 'tab', value: position + 1 });
+            position++;
+        } catch (error) {
+            logError(`Error reopening tab: ${tab.uri.toString()}`, error);
+        }
+    }
+}
+
+/**
+ * Put the editor groups back the way they were when the snapshot was taken.
+ * Groups that were created since are left alone, their owner closes them
+ */
+export async function restoreLayout(snapshot: EditorLayoutSnapshot): Promise<void> {
+    for (const groupSnapshot of snapshot.groups) {
+        await restoreTabs(groupSnapshot);
+    }
+
+    // Activate the tab that was active in each group, the active group last so it gets the focus back
+    const groups = [...snapshot.groups].sort((a, b) =>
+        Number(a.viewColumn === snapshot.activeViewColumn) - Number(b.viewColumn === snapshot.activeViewColumn)
+    );
+    for (const groupSnapshot of groups) {
+        const tab = findGroup(groupSnapshot.viewColumn)?.tabs.find(groupTab =>
+            getTabKey(groupTab) === groupSnapshot.activeTabKey
+        );
+        const isActiveGroup = groupSnapshot.viewColumn === snapshot.activeViewColumn;
+        if (tab && (isActiveGroup || !tab.isActive)) {
+            await activateTab(tab);
+        }
+    }
+
+    // Restore the selections and scroll positions, previewing may have moved them
+    for (const editorSnapshot of snapshot.editors) {
+        const editor = vscode.window.visibleTextEditors.find(visibleEditor =>
+            visibleEditor.viewColumn === editorSnapshot.viewColumn &&
+            visibleEditor.document.uri.toString() === editorSnapshot.uri.toString()
+        );
+        if (!editor) {
+            continue;
+        }
+
+        editor.selections = [...editorSnapshot.selections];
+        if (editorSnapshot.visibleRanges.length > 0) {
+            editor.revealRange(editorSnapshot.visibleRanges[0], vscode.TextEditorRevealType.AtTop);
+        }
+    }
+}
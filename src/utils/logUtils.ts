@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+
+// The "Search Preview" output channel, created when the extension activates
+let outputChannel: vscode.LogOutputChannel | undefined;
+
+/**
+ * Create the "Search Preview" output channel that errors and timings are logged to
+ */
+export function createOutputChannel(): vscode.LogOutputChannel {
+    outputChannel = vscode.window.createOutputChannel('Search Preview', { log: true });
+    return outputChannel;
+}
+
+/**
+ * Reveal the output channel without taking the focus
+ */
+export function showOutputChannel(): void {
+    outputChannel?.show(true);
+}
+
+/**
+ * Write a report to the output channel as is and reveal it
+ */
+export function writeReport(lines: string[]): void {
+    lines.forEach(line => outputChannel?.appendLine(line));
+    showOutputChannel();
+}
+
+/**
+ * Log a message to the output channel
+ */
+export function logInfo(message: string): void {
+    outputChannel?.info(message);
+}
+
+/**
+ * Log an error to the output channel
+ */
+export function logError(message: string, error?: unknown): void {
+    outputChannel?.error(error instanceof Error ? `${message}: ${error.message}` : message);
+}
+
+/**
+ * Log an error and tell the user about it, with a button to open the log
+ */
+export async function reportError(message: string, error?: unknown): Promise<void> {
+    logError(message, error);
+    const choice = await vscode.window.showErrorMessage(`Search Preview: ${message}`, 'Show Log');
+    if (choice === 'Show Log') {
+        showOutputChannel();
+    }
+}
+
+/**
+ * Run some work and log how long it took at debug level, so timings only show up when asked for
+ * @param label What the work was, the duration is appended to it
+ */
+export async function logTiming<T>(label: string, work: () => Promise<T>): Promise<T> {
+    const start = Date.now();
+    try {
+        return await work();
+    } finally {
+        outputChannel?.debug(`${label} took ${Date.now() - start} ms`);
+    }
+}
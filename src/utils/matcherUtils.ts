@@ -0,0 +1,227 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile, spawn } from 'child_process';
+import * as fuzzysort from 'fuzzysort';
+import { FuzzyMatcher, MatchOptions, MatchResult, MatcherName } from '../types';
+import { SettingsManager } from './settingsUtils';
+import { checkKillProcess } from './processUtils';
+import { logError } from './logUtils';
+
+/**
+ * Matcher that pipes the candidates through an external fzf process
+ */
+export class FzfMatcher implements FuzzyMatcher {
+    public readonly name: MatcherName = 'fzf';
+
+    public match(candidates: string[], query: string, options: MatchOptions = {}): Promise<MatchResult[]> {
+        const { token, limit, onResults } = options;
+
+        return new Promise((resolve, reject) => {
+            if (token?.isCancellationRequested) {
+                reject(new vscode.CancellationError());
+                return;
+            }
+
+            // Spawn fzf directly and pipe the candidates through stdin. This avoids
+            // expensive shell interpolation and command-line length limits.
+            const args = [...SettingsManager.getFzfExtraArgs(), '--filter', query];
+            const spawnProcess = spawn(SettingsManager.getFzfPath(), args, {
+                stdio: ['pipe', 'pipe', 'pipe']
+            });
+            let spawnRegistry = [spawnProcess];
+
+            const results: MatchResult[] = [];
+            let remainder = '';
+            let finished = false;
+            let cancellation: vscode.Disposable | undefined;
+
+            // Settle exactly once and make sure fzf doesn't outlive the search
+            const finish = (error?: Error) => {
+                if (finished) {
+                    return;
+                }
+                finished = true;
+                cancellation?.dispose();
+                spawnRegistry = checkKillProcess(spawnRegistry);
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(results);
+                }
+            };
+
+            // A newer query superseded this one, stop fzf right away
+            cancellation = token?.onCancellationRequested(() => finish(new vscode.CancellationError()));
+
+            // Each line is a match, fzf already sorts by best match
+            const addLines = (lines: string[]) => {
+                const remaining = limit === undefined ? lines.length : limit - results.length;
+                const batch = lines.filter(Boolean).slice(0, remaining).map(candidate => ({ candidate }));
+                if (batch.length === 0) {
+                    return;
+                }
+                results.push(...batch);
+                onResults?.(batch);
+            };
+
+            spawnProcess.stdout.on('data', (data: Buffer) => {
+                // Output that comes in after a cancel or a full page is not wanted anymore
+                if (finished) {
+                    return;
+                }
+                // Output can be split anywhere, keep the incomplete last line for the next chunk
+                const lines = (remainder + data.toString()).split('\n');
+                remainder = lines.pop() ?? '';
+                addLines(lines);
+
+                // We have all we are going to show, no need to wait for the rest
+                if (limit !== undefined && results.length >= limit) {
+                    finish();
+                }
+            });
+
+            let errorOutput = '';
+            spawnProcess.stderr.on('data', (data: Buffer) => {
+                errorOutput += data.toString();
+            });
+
+            spawnProcess.on('error', (error) => {
+                finish(error);
+            });
+
+            spawnProcess.on('close', (code: number | null) => {
+                // Killing fzf after a cancel closes it too, the search has settled already
+                if (finished) {
+                    return;
+                }
+                addLines([remainder]);
+                if (code === 0 || code === 1) {
+                    finish();
+                } else {
+                    finish(new Error(`fzf exited with code ${code}: ${errorOutput.trim()}`));
+                }
+            });
+
+            // Feed the candidates to fzf and close stdin.
+            spawnProcess.stdin.on('error', () => {
+                // fzf went away before reading everything, the close handler reports it
+            });
+            spawnProcess.stdin.write(candidates.join('\n'));
+            spawnProcess.stdin.end();
+        });
+    }
+}
+
+/**
+ * Matcher that runs fuzzysort in process, so no external binary is needed
+ */
+export class FuzzysortMatcher implements FuzzyMatcher {
+    public readonly name: MatcherName = 'fuzzysort';
+
+    public async match(candidates: string[], query: string, options: MatchOptions = {}): Promise<MatchResult[]> {
+        const { token, limit, onResults } = options;
+        if (token?.isCancellationRequested) {
+            throw new vscode.CancellationError();
+        }
+
+        const results = query
+            ? fuzzysort.go(query, candidates, { limit }).map(result => ({
+                candidate: result.target,
+                score: result.score
+            }))
+            : candidates.slice(0, limit).map(candidate => ({ candidate }));
+
+        onResults?.(results);
+        return results;
+    }
+}
+
+const fzfMatcher = new FzfMatcher();
+const fuzzysortMatcher = new FuzzysortMatcher();
+
+let fzfVersion: Promise<string | undefined> | undefined;
+let warnedAboutMissingFzf = false;
+
+/**
+ * Get the version of the configured fzf, checked once. Undefined when it can't be started
+ */
+export function getFzfVersion(): Promise<string | undefined> {
+    if (!fzfVersion) {
+        fzfVersion = new Promise(resolve => {
+            execFile(SettingsManager.getFzfPath(), ['--version'], (error, stdout) => {
+                resolve(error ? undefined : stdout.trim());
+            });
+        });
+    }
+    return fzfVersion;
+}
+
+/**
+ * Check whether fzf can be started
+ */
+export async function isFzfAvailable(): Promise<boolean> {
+    return (await getFzfVersion()) !== undefined;
+}
+
+/**
+ * Forget what was found out about fzf, after the searchPreview.fzf.path setting changed
+ */
+export function resetFzfDetection(): void {
+    fzfVersion = undefined;
+    warnedAboutMissingFzf = false;
+}
+
+/**
+ * Find the fzf executable the matcher runs, by looking it up on PATH unless a path is configured
+ */
+export async function findFzf(): Promise<string | undefined> {
+    const fzfPath = SettingsManager.getFzfPath();
+    const extensions = process.platform === 'win32' ? ['', '.exe', '.cmd', '.bat'] : [''];
+    const candidates = path.isAbsolute(fzfPath) || fzfPath.includes(path.sep)
+        ? [fzfPath]
+        : (process.env.PATH ?? '').split(path.delimiter).filter(Boolean)
+            .flatMap(directory => extensions.map(extension => path.join(directory, fzfPath + extension)));
+
+    for (const candidate of candidates) {
+        try {
+            await fs.promises.access(candidate, fs.constants.X_OK);
+            return candidate;
+        } catch {
+            // Not here, try the next one
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Get the matcher selected by the searchPreview.search.matcher setting,
+ * falling back to fuzzysort when fzf is not installed
+ */
+export async function getMatcher(): Promise<FuzzyMatcher> {
+    const setting = SettingsManager.getMatcher();
+    if (setting === 'fuzzysort') {
+        return fuzzysortMatcher;
+    }
+
+    if (await isFzfAvailable()) {
+        return fzfMatcher;
+    }
+
+    // Only nag when the user explicitly asked for fzf
+    if (setting === 'fzf' && !warnedAboutMissingFzf) {
+        warnedAboutMissingFzf = true;
+        vscode.window.showWarningMessage(
+            'Search Preview: fzf was not found, using the built-in matcher instead. ' +
+            'Set searchPreview.fzf.path or run Search Preview: Check Health for details.'
+        );
+    }
+    return fuzzysortMatcher;
+}
+
+/**
+ * Get the built-in matcher, to fall back to when fzf fails
+ */
+export function getFallbackMatcher(): FuzzyMatcher {
+    return fuzzysortMatcher;
+}
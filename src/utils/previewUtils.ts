@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SettingsManager } from './settingsUtils';
+import { logError } from './logUtils';
+
+// Why a file is shown as a placeholder instead of being opened
+export type PreviewSkipReason = 'tooLarge' | 'binary' | 'slow' | 'deleted';
+
+export interface PreviewCheck {
+    skipReason?: PreviewSkipReason;
+    size?: number;
+    mtime?: number;
+}
+
+// Files that don't answer a stat within this time are on a slow or unreachable file system
+const STAT_TIMEOUT = 1000;
+
+// Like git, a NUL byte in the first 8000 bytes marks a file as binary
+const BINARY_SNIFF_BYTES = 8000;
+
+// Binary files VS Code has a proper preview for
+const PREVIEWABLE_BINARY_EXTENSIONS = new Set([
+    '.png', '.jpg', '.jpeg', '.gif', '.webp', '.bmp', '.ico', '.svg'
+]);
+
+/**
+ * Resolve with the promise's value, or with undefined when it takes longer than the timeout
+ */
+function withTimeout<T>(promise: Thenable<T>, timeout: number): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => resolve(undefined), timeout);
+        promise.then(
+            value => {
+                clearTimeout(timer);
+                resolve(value);
+            },
+            error => {
+                clearTimeout(timer);
+                reject(error);
+            }
+        );
+    });
+}
+
+/**
+ * Read the start of a file. Local files are read partially, others are read whole,
+ * so only call it for files within the preview size limit
+ */
+export async function readFileHead(uri: vscode.Uri, length: number): Promise<Buffer> {
+    if (uri.scheme !== 'file') {
+        const content = await vscode.workspace.fs.readFile(uri);
+        return Buffer.from(content.subarray(0, length));
+    }
+
+    const handle = await fs.promises.open(uri.fsPath, 'r');
+    try {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, 0);
+        return buffer.subarray(0, bytesRead);
+    } finally {
+        await handle.close();
+    }
+}
+
+/**
+ * Check whether a file can be previewed without freezing the editor: it has to answer quickly,
+ * stay within the size limit and be text, or a binary format VS Code can show
+ */
+export async function checkPreview(uri: vscode.Uri): Promise<PreviewCheck> {
+    // Unsaved documents only exist in memory
+    if (uri.scheme === 'untitled') {
+        return {};
+    }
+
+    let stat: vscode.FileStat | undefined;
+    try {
+        stat = await withTimeout(vscode.workspace.fs.stat(uri), STAT_TIMEOUT);
+    } catch (error) {
+        // Let opening the file report what is wrong with it
+        return {};
+    }
+    if (!stat) {
+        return { skipReason: 'slow' };
+    }
+
+    const check: PreviewCheck = { size: stat.size, mtime: stat.mtime };
+    const maxSize = SettingsManager.getPreviewMaxFileSize() * 1024 * 1024;
+    if (maxSize > 0 && stat.size > maxSize) {
+        return { ...check, skipReason: 'tooLarge' };
+    }
+
+    if (!PREVIEWABLE_BINARY_EXTENSIONS.has(path.extname(uri.path).toLowerCase())) {
+        try {
+            const head = await readFileHead(uri, BINARY_SNIFF_BYTES);
+            if (head.includes(0)) {
+                return { ...check, skipReason: 'binary' };
+            }
+        } catch (error) {
+            logError(`Error reading file: ${uri.toString()}`, error);
+        }
+    }
+
+    return check;
+}
+
+/**
+ * Format a file size for display, like 12.3 MB
+ */
+export function formatFileSize(size: number): string {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let unitIndex = 0;
+    while (size >= 1024 && unitIndex < units.length - 1) {
+        size /= 1024;
+        unitIndex++;
+    }
+    return unitIndex === 0 ? `${size} B` : `${size.toFixed(1)} ${units[unitIndex]}`;
+}
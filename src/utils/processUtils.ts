@@ -0,0 +1,13 @@
+import { ChildProcess } from 'child_process';
+
+// Utility function to check if a process exists
+export function checkKillProcess<T extends ChildProcess>(spawnRegistry: T[]): T[] {
+    spawnRegistry.forEach((spawnProcess) => {
+        spawnProcess.stdout?.destroy();
+        spawnProcess.stderr?.destroy();
+        spawnProcess.kill();
+    });
+
+    // check if spawn process is no longer running and if so remove from registry
+    return spawnRegistry.filter((spawnProcess) => !spawnProcess.killed);
+}
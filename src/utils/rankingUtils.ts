@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FileMatch } from '../types';
+
+// Largest boost frecency can give, relative to fuzzy scores between 0 and 1.
+// Small enough that it only reorders files whose fuzzy scores are close.
+const FRECENCY_WEIGHT = 0.15;
+
+// Boost for files in the same directory as the editor the search started from
+const PROXIMITY_WEIGHT = 0.05;
+
+/**
+ * Re-rank fuzzy matches, boosting frequently and recently opened files
+ * and files next to the editor the search started from
+ * @param matches Matches in the matcher's ranking, best first
+ * @param getFrecency Frecency score of a file, 0 when it was never opened
+ * @param originDirectory Directory of the editor that was active when the search started
+ */
+export function rankByFrecency(
+    matches: FileMatch[],
+    getFrecency: (uri: vscode.Uri) => number,
+    originDirectory?: string
+): FileMatch[] {
+    const frecencies = matches.map(match => getFrecency(match.uri));
+    const maxFrecency = frecencies.reduce((max, frecency) => Math.max(max, frecency), 0);
+
+    const scored = matches.map((match, rank) => {
+        // Backends without scores (fzf) only give us their ranking
+        const fuzzyScore = match.score ?? 1 - rank / matches.length;
+
+        // Logarithmic, so one very hot file doesn't flatten all the others
+        const frecencyBoost = maxFrecency > 0
+            ? FRECENCY_WEIGHT * Math.log1p(frecencies[rank]) / Math.log1p(maxFrecency)
+            : 0;
+
+        const proximityBoost = originDirectory && path.dirname(match.uri.fsPath) === originDirectory
+            ? PROXIMITY_WEIGHT
+            : 0;
+
+        return { match, rank, score: fuzzyScore + frecencyBoost + proximityBoost };
+    });
+
+    // Ties keep the matcher's order
+    scored.sort((a, b) => b.score - a.score || a.rank - b.rank);
+    return scored.map(({ match }) => match);
+}
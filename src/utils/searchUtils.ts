@@ -1,85 +1,199 @@
 import * as vscode from 'vscode';
-import { spawn } from 'child_process';
+import { FileMatch, ItemMatch, MatchResult, SearchOptions } from '../types';
 import { SettingsManager } from './settingsUtils';
+import { getFallbackMatcher, getMatcher } from './matcherUtils';
+import { logError, logTiming } from './logUtils';
+import { escapeRegExp, getRelativePath } from './fileUtils';
 
 /**
- * Convert file URIs to SearchQuickPickItems
+ * Split a `folderName:` prefix off a query, restricting the search to that workspace folder.
+ * The prefix only counts when it names one of the workspace folders.
  */
+export function parseFolderQuery(value: string): { folder?: vscode.WorkspaceFolder; query: string } {
+    const match = /^([^:\/\\]+):(.*)$/.exec(value);
+    if (match) {
+        const folderName = match[1].toLowerCase();
+        const folder = vscode.workspace.workspaceFolders?.find(
+            workspaceFolder => workspaceFolder.name.toLowerCase() === folderName
+        );
+        if (folder) {
+            return { folder, query: match[2] };
+        }
+    }
+    return { query: value };
+}
 
-// Utility function to check if a process exists
-export function checkKillProcess(spawnRegistry: any[]) {
-    spawnRegistry.forEach((spawnProcess) => {
-        spawnProcess.stdout.destroy();
-        spawnProcess.stderr.destroy();
-        spawnProcess.kill();
-    });
+/**
+ * Keep only the files inside the given workspace folder
+ */
+export function filterFilesByFolder(files: vscode.Uri[], folder: vscode.WorkspaceFolder): vscode.Uri[] {
+    const folderPrefix = folder.uri.toString().replace(/\/?$/, '/');
+    return files.filter(file => file.toString().startsWith(folderPrefix));
+}
 
-    // check if spawn process is no longer running and if so remove from registry
-    return spawnRegistry.filter((spawnProcess) => !spawnProcess.killed);
+/**
+ * Keep only the files below the given directory
+ */
+export function filterFilesByDirectory(files: vscode.Uri[], directory: vscode.Uri): vscode.Uri[] {
+    const directoryPrefix = directory.toString().replace(/\/?$/, '/');
+    return files.filter(file => file.toString().startsWith(directoryPrefix));
 }
 
 /**
- * Perform a fuzzy search on file paths using fzf
- * @param files Array of file URIs to search
+ * Get the folders of the workspace that contain files, derived from the file list. Folders of
+ * excluded files, like the excludeDirectories, don't show up. Workspace folders themselves are left out
+ */
+export function getDirectories(files: vscode.Uri[]): vscode.Uri[] {
+    const directories = new Map<string, vscode.Uri>();
+
+    for (const file of files) {
+        const folder = vscode.workspace.getWorkspaceFolder(file);
+        if (!folder || SettingsManager.shouldExcludeFile(file.fsPath)) {
+            continue;
+        }
+
+        // Walk up to the workspace folder, stopping early where a sibling file already did
+        for (let directory = vscode.Uri.joinPath(file, '..');
+            directory.path.length > folder.uri.path.length;
+            directory = vscode.Uri.joinPath(directory, '..')) {
+            const key = directory.toString();
+            if (directories.has(key)) {
+                break;
+            }
+            directories.set(key, directory);
+        }
+    }
+
+    return Array.from(directories.values());
+}
+
+/**
+ * Perform a fuzzy search on arbitrary items using the configured matcher
+ * @param items Items to search
+ * @param getText Text of an item the query is matched against
  * @param searchText Search query
- * @returns Promise that resolves to array of file URIs
+ * @param options Cancellation, result limit and a callback for results as they stream in
+ * @returns Promise that resolves to the matching items, best match first
  */
-export async function fuzzySearchFiles(files: vscode.Uri[], searchText: string): Promise<{ uri: vscode.Uri }[]> {
-    return new Promise((resolve, reject) => {
-        // Pre-filter files to exclude unwanted paths
-        const filteredFiles = files.filter(file => !SettingsManager.shouldExcludeFile(file.fsPath));
-        
-        // Create list of file paths for fzf
-        const filePaths = filteredFiles.map(file => vscode.workspace.asRelativePath(file.fsPath));
-        
-        // Map from file path to URI for later lookup
-        const pathToUriMap = new Map<string, vscode.Uri>();
-        filteredFiles.forEach(file => {
-            pathToUriMap.set(vscode.workspace.asRelativePath(file.fsPath), file);
-        });
-        
-        // Create input for fzf (newline-separated list)
-        const fzfInput = filePaths.join('\n');
-        
-        // Spawn fzf directly and pipe the file list through stdin. This avoids
-        // expensive shell interpolation and command-line length limits.
-        const spawnRegistry: any[] = [];
-        const spawnProcess = spawn('fzf', ['--filter', searchText], {
-            stdio: ['pipe', 'pipe', 'pipe']
-        });
-        // Feed the file list to fzf and close stdin.
-        spawnProcess.stdin.write(fzfInput);
-        spawnProcess.stdin.end();
-        spawnRegistry.push(spawnProcess);
-        
-        const searchResults: { uri: vscode.Uri }[] = [];
-        
-        spawnProcess.stdout.on('data', (data: Buffer) => {
-            const lines = data.toString().split('\n').filter(Boolean);
-            
-            // Each line is a match, fzf already sorts by best match
-            lines.forEach(line => {
-                const uri = pathToUriMap.get(line);
-                if (uri) {
-                    searchResults.push({ uri });
-                }
-            });
-        });
-        
-        spawnProcess.stderr.on('data', (data: Buffer) => {
-            console.error(`fzf error: ${data.toString()}`);
-        });
-        
-        spawnProcess.on('exit', (code: number) => {
-            if (code === 0 || code === 1) {
-                // Return results - already sorted by fzf's ranking
-                resolve(searchResults);
-            } else {
-                reject(`fzf exited with code ${code}`);
+export async function fuzzySearchItems<T>(
+    items: T[],
+    getText: (item: T) => string,
+    searchText: string,
+    options: SearchOptions<ItemMatch<T>> = {}
+): Promise<ItemMatch<T>[]> {
+    // Map from text to items for later lookup. Several items can share the same text
+    // (e.g. the same relative path in two workspace folders), each match takes the next one
+    const textToItemsMap = new Map<string, T[]>();
+    const candidates: string[] = [];
+    items.forEach(item => {
+        const text = getText(item);
+        const sameText = textToItemsMap.get(text);
+        if (sameText) {
+            sameText.push(item);
+        } else {
+            textToItemsMap.set(text, [item]);
+        }
+        candidates.push(text);
+    });
+    
+    // Streamed batches and the final result share match objects, resolve each one only once
+    const resolved = new WeakMap<MatchResult, ItemMatch<T> | undefined>();
+    const toItemMatches = (matches: MatchResult[]): ItemMatch<T>[] => {
+        const itemMatches: ItemMatch<T>[] = [];
+        matches.forEach(match => {
+            if (!resolved.has(match)) {
+                const sameText = textToItemsMap.get(match.candidate);
+                resolved.set(match, sameText && sameText.length > 0
+                    ? { item: sameText.shift()!, score: match.score }
+                    : undefined);
+            }
+            const itemMatch = resolved.get(match);
+            if (itemMatch) {
+                itemMatches.push(itemMatch);
             }
-            
-            // Clear the process registry
-            checkKillProcess(spawnRegistry);
         });
+        return itemMatches;
+    };
+    
+    // Let the matcher do ALL the filtering and ranking
+    const { token, limit, onResults } = options;
+    let streamed = false;
+    const matchOptions = {
+        token,
+        limit,
+        onResults: onResults ? (results: MatchResult[]) => {
+            streamed = true;
+            onResults(toItemMatches(results));
+        } : undefined
+    };
+    
+    const matcher = await getMatcher();
+    const label = `Matching ${candidates.length} candidates with ${matcher.name}`;
+    try {
+        const matches = await logTiming(label, () => matcher.match(candidates, searchText, matchOptions));
+        return toItemMatches(matches);
+    } catch (error) {
+        // A broken fzf setup shouldn't leave the picker empty, unless it already showed results
+        if (error instanceof vscode.CancellationError || matcher.name !== 'fzf' || streamed) {
+            throw error;
+        }
+        logError('fzf failed, falling back to the built-in matcher', error);
+        const matches = await getFallbackMatcher().match(candidates, searchText, matchOptions);
+        return toItemMatches(matches);
+    }
+}
+
+/**
+ * Perform a fuzzy search on file paths using the configured matcher
+ * @param files Array of file URIs to search
+ * @param searchText Search query
+ * @param options Cancellation, result limit and a callback for results as they stream in
+ * @returns Promise that resolves to array of file URIs, best match first
+ */
+export async function fuzzySearchFiles(
+    files: vscode.Uri[],
+    searchText: string,
+    options: SearchOptions<FileMatch> = {}
+): Promise<FileMatch[]> {
+    // Pre-filter files to exclude unwanted paths
+    const filteredFiles = files.filter(file => !SettingsManager.shouldExcludeFile(file.fsPath));
+    
+    const toFileMatches = (matches: ItemMatch<vscode.Uri>[]): FileMatch[] =>
+        matches.map(({ item, score }) => ({ uri: item, score }));
+    
+    const { onResults } = options;
+    const matches = await fuzzySearchItems(filteredFiles, getRelativePath, searchText, {
+        ...options,
+        onResults: onResults ? results => onResults(toFileMatches(results)) : undefined
     });
+    return toFileMatches(matches);
+}
+
+/**
+ * Split a `:line` or `:line:column` suffix off a query, like native quick open's `path:42:7`.
+ * Line and column are returned zero based.
+ */
+export function parseLineQuery(value: string): { query: string; linePos?: number; colPos?: number } {
+    const match = /^(.*?):(\d+)(?::(\d+))?$/.exec(value);
+    if (!match) {
+        return { query: value };
+    }
+    return {
+        query: match[1],
+        linePos: Math.max(parseInt(match[2], 10) - 1, 0),
+        colPos: match[3] ? Math.max(parseInt(match[3], 10) - 1, 0) : 0
+    };
+}
+
+/**
+ * Build the pattern whose occurrences are highlighted in the preview of a live grep result.
+ * Follows ripgrep's smart case, queries that aren't valid JavaScript regexes are matched literally
+ */
+export function buildOccurrencePattern(searchText: string): RegExp {
+    const flags = searchText === searchText.toLowerCase() ? 'gi' : 'g';
+    try {
+        return new RegExp(searchText, flags);
+    } catch {
+        return new RegExp(escapeRegExp(searchText), flags);
+    }
 }
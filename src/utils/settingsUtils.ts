@@ -1,48 +1,51 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import picomatch = require('picomatch');
+import { CustomPickerConfig, MatcherName } from '../types';
+import { isIgnoredByIgnoreFiles } from './ignoreUtils';
 
-/**
- * Utility to escape regex metacharacters in a string.
- */
-function escapeRegex(str: string): string {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
+// ----------------------------------------------------------------------------------
+// Cached, pre-compiled exclude matchers
+// ----------------------------------------------------------------------------------
+
+// Exclude matchers by workspace folder URI, files outside the workspace use the '' entry
+let compiledMatchers: Map<string, (relativePath: string) => boolean> | null = null;
+let useIgnoreFiles: boolean | null = null;
+// Whether a file is excluded, by path. The same files are checked over and over while typing
+const excludedPaths = new Map<string, boolean>();
+// How many paths are cached, the oldest ones are dropped beyond that
+const MAX_EXCLUDED_PATHS = 100000;
 
 /**
- * Convert a simple glob pattern (limited ** and *) to a RegExp.
- * This is NOT a full glob implementation but covers the common cases we use
- * in the default config and keeps it fast.
+ * Compile the exclude patterns that apply to a workspace folder into one matcher
  */
-function globToRegExp(glob: string): RegExp {
-    // Normalise path separators so we only handle '/'
-    const normalised = glob.replace(/\\/g, '/');
+function buildExcludeMatcher(folder?: vscode.WorkspaceFolder): (relativePath: string) => boolean {
+    const patterns = [
+        ...SettingsManager.getExcludeDirectories().map(dir => `**/${dir}/**`),
+        ...SettingsManager.getExcludePatterns(),
+        ...SettingsManager.getWorkspaceExcludePatterns(folder?.uri)
+    ];
 
-    // First escape all regex metacharacters
-    let regexStr = escapeRegex(normalised);
+    // Negated patterns re-include files that other patterns exclude
+    const excludes = patterns.filter(pattern => !pattern.startsWith('!'));
+    const includes = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => pattern.slice(1));
 
-    // Replace escaped glob tokens with regex equivalents
-    regexStr = regexStr
-        .replace(/\\\*\\\*/g, '.*')     // **  -> .*
-        .replace(/\\\*/g, '[^/]*');        // *   -> any chars except '/'
-
-    return new RegExp(regexStr);
+    const isExcluded = compileGlobs(excludes);
+    const isIncluded = compileGlobs(includes);
+    return relativePath => isExcluded(relativePath) && !isIncluded(relativePath);
 }
 
-// ----------------------------------------------------------------------------------
-// Cached, pre-compiled exclude matchers
-// ----------------------------------------------------------------------------------
-
-let compiledDirRegexes: RegExp[] | null = null;
-let compiledPatternRegexes: RegExp[] | null = null;
-
-function buildExcludeRegexCaches() {
-    // Compile directory matchers: we just look for '/<dir>/' anywhere in the path
-    compiledDirRegexes = SettingsManager.getExcludeDirectories().map(dir => {
-        const escaped = escapeRegex(dir);
-        return new RegExp(`/${escaped}/`);
-    });
+/**
+ * Compile glob patterns into a single matcher. Patterns without a slash match the file
+ * name in any directory, picomatch's basename option would apply that to every pattern
+ */
+export function compileGlobs(patterns: string[]): (relativePath: string) => boolean {
+    const pathPatterns = patterns.filter(pattern => pattern.includes('/'));
+    const namePatterns = patterns.filter(pattern => !pattern.includes('/'));
 
-    // Compile file pattern matchers
-    compiledPatternRegexes = SettingsManager.getExcludePatterns().map(glob => globToRegExp(glob));
+    const matchesPath = pathPatterns.length > 0 ? picomatch(pathPatterns, { dot: true }) : () => false;
+    const matchesName = namePatterns.length > 0 ? picomatch(namePatterns, { dot: true }) : () => false;
+    return relativePath => matchesPath(relativePath) || matchesName(path.posix.basename(relativePath));
 }
 
 /**
@@ -80,50 +83,220 @@ export class SettingsManager {
             .get<number>('maxResults', 100);
     }
     
+    /**
+     * Get the fuzzy matcher backend to use, 'auto' prefers fzf when it is installed
+     */
+    public static getMatcher(): MatcherName | 'auto' {
+        return vscode.workspace
+            .getConfiguration('searchPreview.search')
+            .get<MatcherName | 'auto'>('matcher', 'auto');
+    }
+    
+    /**
+     * Get how standard quick open ranks results, 'frecency' boosts frequently and recently opened files
+     */
+    public static getRanking(): 'fuzzy' | 'frecency' {
+        return vscode.workspace
+            .getConfiguration('searchPreview.search')
+            .get<'fuzzy' | 'frecency'>('ranking', 'fuzzy');
+    }
+    
+    /**
+     * Get the fzf executable to run, a name looked up on PATH or an absolute path
+     */
+    public static getFzfPath(): string {
+        return vscode.workspace
+            .getConfiguration('searchPreview.fzf')
+            .get<string>('path', '') || 'fzf';
+    }
+    
+    /**
+     * Get the extra command line arguments passed to fzf, like --tiebreak or --scheme
+     */
+    public static getFzfExtraArgs(): string[] {
+        return vscode.workspace
+            .getConfiguration('searchPreview.fzf')
+            .get<string[]>('extraArgs', []);
+    }
+    
+    /**
+     * Get the maximum number of entries kept in the editor history, pinned entries are never evicted
+     */
+    public static getHistoryMaxSize(): number {
+        return vscode.workspace
+            .getConfiguration('searchPreview.history')
+            .get<number>('maxSize', 100);
+    }
+    
+    /**
+     * Get where previews are shown: the active editor group, the group beside it,
+     * or a dedicated group that only exists while a picker is open
+     */
+    public static getPreviewLocation(): 'active' | 'beside' | 'dedicatedColumn' {
+        return vscode.workspace
+            .getConfiguration('searchPreview.preview')
+            .get<'active' | 'beside' | 'dedicatedColumn'>('location', 'active');
+    }
+    
+    /**
+     * Get the size in MB above which files are shown as a placeholder instead of being previewed, 0 for no limit
+     */
+    public static getPreviewMaxFileSize(): number {
+        return vscode.workspace
+            .getConfiguration('searchPreview.preview')
+            .get<number>('maxFileSize', 5);
+    }
+    
+    /**
+     * Get the delay in milliseconds before the active item is previewed, so scrolling through results stays fast
+     */
+    public static getPreviewDebounce(): number {
+        return vscode.workspace
+            .getConfiguration('searchPreview.preview')
+            .get<number>('debounce', 50);
+    }
+    
+    /**
+     * Check whether pickers allow selecting multiple items
+     */
+    public static getCanSelectMany(): boolean {
+        return vscode.workspace
+            .getConfiguration('searchPreview.picker')
+            .get<boolean>('canSelectMany', false);
+    }
+    
+    /**
+     * Get the pickers defined in settings, whose entries come from a shell command
+     */
+    public static getCustomPickers(): CustomPickerConfig[] {
+        return vscode.workspace
+            .getConfiguration('searchPreview')
+            .get<CustomPickerConfig[]>('customPickers', []);
+    }
+    
+    /**
+     * Check whether .gitignore and .ignore files exclude files from the pickers
+     */
+    public static getUseIgnoreFiles(): boolean {
+        return vscode.workspace
+            .getConfiguration('searchPreview.search')
+            .get<boolean>('useIgnoreFiles', true);
+    }
+    
+    /**
+     * Check whether the files.exclude setting excludes files from the pickers
+     */
+    public static getUseFilesExclude(): boolean {
+        return vscode.workspace
+            .getConfiguration('searchPreview.search')
+            .get<boolean>('useFilesExclude', true);
+    }
+    
+    /**
+     * Check whether the search.exclude setting excludes files from the pickers
+     */
+    public static getUseSearchExclude(): boolean {
+        return vscode.workspace
+            .getConfiguration('searchPreview.search')
+            .get<boolean>('useSearchExclude', true);
+    }
+    
+    /**
+     * Get the enabled patterns of VS Code's files.exclude and search.exclude settings,
+     * when they are opted into. Patterns with a `when` clause depend on sibling files and are skipped
+     * @param scope Workspace folder whose settings apply, the workspace settings by default
+     */
+    public static getWorkspaceExcludePatterns(scope?: vscode.Uri): string[] {
+        const sections = [
+            ...(this.getUseFilesExclude() ? ['files'] : []),
+            ...(this.getUseSearchExclude() ? ['search'] : [])
+        ];
+        
+        return sections.flatMap(section => {
+            const excludes = vscode.workspace
+                .getConfiguration(section, scope)
+                .get<Record<string, boolean | { when: string }>>('exclude', {});
+            return Object.keys(excludes).filter(pattern => excludes[pattern] === true);
+        });
+    }
     
     /**
      * Generate a glob pattern for excluded files to use with workspace.findFiles
      */
     public static getGlobExcludePattern(): string {
-        const excludeDirectories = this.getExcludeDirectories();
-        const excludePatterns = this.getExcludePatterns();
+        const patterns = [
+            ...this.getExcludeDirectories().map(dir => `**/${dir}/**`),
+            ...this.getExcludePatterns(),
+            ...this.getWorkspaceExcludePatterns()
+        ];
         
-        // Combine all directory exclusions with OR
-        const dirExclusions = excludeDirectories
-            .map(dir => `**/${dir}/**`)
-            .join(',');
-            
-        // Combine all pattern exclusions with OR  
-        const patternExclusions = excludePatterns.join(',');
+        // Alternatives go in one brace group, which can't be nested. Patterns with their own
+        // braces are left to shouldExcludeFile, which filters the results anyway
+        const simplePatterns = patterns.filter(pattern =>
+            !/[{}]/.test(pattern) && this.isSearchExcludable(pattern, patterns)
+        );
+        return simplePatterns.length > 0 ? `{${simplePatterns.join(',')}}` : '';
+    }
+    
+    /**
+     * Check whether a pattern can be handed to a search that only excludes, like workspace.findFiles
+     * or ripgrep. Negated patterns can't, nor can the patterns whose files they may re-include,
+     * shouldExcludeFile decides on those files instead
+     * @param patterns All configured patterns, including the negated ones
+     */
+    public static isSearchExcludable(pattern: string, patterns: string[]): boolean {
+        if (pattern.startsWith('!')) {
+            return false;
+        }
         
-        // Combine both types of exclusions with OR
-        return [dirExclusions, patternExclusions].filter(Boolean).join(',');
+        const isExcluded = compileGlobs([pattern]);
+        return !patterns
+            .filter(other => other.startsWith('!'))
+            .map(negation => negation.slice(1))
+            .some(negation => isExcluded(negation) || compileGlobs([negation])(pattern));
     }
     
     /**
-     * Check if a file path should be excluded based on settings
+     * Drop the compiled exclude matchers so they are rebuilt from the current settings
+     */
+    public static clearExcludeCache(): void {
+        compiledMatchers = null;
+        useIgnoreFiles = null;
+        excludedPaths.clear();
+    }
+    
+    /**
+     * Check if a file path should be excluded based on settings and ignore files
      */
     public static shouldExcludeFile(filePath: string): boolean {
-        const normalizedPath = filePath.replace(/\\/g, '/');
+        const cached = excludedPaths.get(filePath);
+        if (cached !== undefined) {
+            return cached;
+        }
+        
         // Lazily build caches on first use
-        if (!compiledDirRegexes || !compiledPatternRegexes) {
-            buildExcludeRegexCaches();
+        if (!compiledMatchers || useIgnoreFiles === null) {
+            compiledMatchers = new Map();
+            useIgnoreFiles = this.getUseIgnoreFiles();
         }
-
-        // Directory based exclusions
-        for (const dirRegex of compiledDirRegexes!) {
-            if (dirRegex.test(normalizedPath)) {
-                return true;
-            }
+        
+        // Patterns are relative to the workspace folder the file is in, like in VS Code's settings
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+        const folderKey = folder?.uri.toString() ?? '';
+        let matcher = compiledMatchers.get(folderKey);
+        if (!matcher) {
+            matcher = buildExcludeMatcher(folder);
+            compiledMatchers.set(folderKey, matcher);
         }
-
-        // Glob/pattern based exclusions
-        for (const patRegex of compiledPatternRegexes!) {
-            if (patRegex.test(normalizedPath)) {
-                return true;
-            }
+        
+        const relativePath = (folder ? path.relative(folder.uri.fsPath, filePath) : filePath).replace(/\\/g, '/');
+        const excluded = matcher(relativePath) || (useIgnoreFiles && isIgnoredByIgnoreFiles(filePath));
+        
+        if (excludedPaths.size >= MAX_EXCLUDED_PATHS) {
+            // Maps iterate in insertion order, the first key is the oldest
+            excludedPaths.delete(excludedPaths.keys().next().value!);
         }
-
-        return false;
+        excludedPaths.set(filePath, excluded);
+        return excluded;
     }
-} 
\ No newline at end of file
+}
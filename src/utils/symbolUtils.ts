@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import { SymbolEntry } from '../types';
+
+/**
+ * Get the codicon for a symbol kind, e.g. `symbol-enum-member` for SymbolKind.EnumMember
+ */
+export function getSymbolIcon(kind: vscode.SymbolKind): string {
+	const kindName = vscode.SymbolKind[kind] ?? 'Misc';
+	return `symbol-${kindName.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase()}`;
+}
+
+/**
+ * Convert a symbol from a workspace symbol provider into a symbol entry
+ */
+export function toSymbolEntry(symbol: vscode.SymbolInformation): SymbolEntry {
+	return {
+		name: symbol.name,
+		containerName: symbol.containerName || undefined,
+		kind: symbol.kind,
+		uri: symbol.location.uri,
+		range: symbol.location.range
+	};
+}
+
+/**
+ * Flatten the result of the document symbol provider, which is either a tree
+ * of DocumentSymbols or a flat list of SymbolInformation
+ */
+export function flattenDocumentSymbols(
+	symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[],
+	uri: vscode.Uri,
+	containerName?: string
+): SymbolEntry[] {
+	const entries: SymbolEntry[] = [];
+
+	for (const symbol of symbols) {
+		if ('location' in symbol) {
+			entries.push(toSymbolEntry(symbol));
+			continue;
+		}
+
+		entries.push({
+			name: symbol.name,
+			containerName,
+			kind: symbol.kind,
+			uri,
+			range: symbol.selectionRange
+		});
+		entries.push(...flattenDocumentSymbols(symbol.children, uri, symbol.name));
+	}
+
+	return entries;
+}
@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+
+// Commands to focus an editor group by its position, VS Code has them for the first eight groups
+const FOCUS_GROUP_COMMANDS = [
+    'workbench.action.focusFirstEditorGroup',
+    'workbench.action.focusSecondEditorGroup',
+    'workbench.action.focusThirdEditorGroup',
+    'workbench.action.focusFourthEditorGroup',
+    'workbench.action.focusFifthEditorGroup',
+    'workbench.action.focusSixthEditorGroup',
+    'workbench.action.focusSeventhEditorGroup',
+    'workbench.action.focusEighthEditorGroup'
+];
+
+/**
+ * Get the document a tab shows, the modified side for diffs. Tabs like webviews and terminals have none
+ */
+export function getTabUri(tab: vscode.Tab): vscode.Uri | undefined {
+    const input = tab.input;
+    if (input instanceof vscode.TabInputText ||
+        input instanceof vscode.TabInputCustom ||
+        input instanceof vscode.TabInputNotebook) {
+        return input.uri;
+    }
+    if (input instanceof vscode.TabInputTextDiff || input instanceof vscode.TabInputNotebookDiff) {
+        return input.modified;
+    }
+    return undefined;
+}
+
+/**
+ * Identify a tab by what it shows, so it can be found again after tabs were opened and closed.
+ * A diff and the plain editor of the same file are different tabs
+ */
+export function getTabKey(tab: vscode.Tab): string {
+    const input = tab.input;
+    const uri = getTabUri(tab);
+    if (input instanceof vscode.TabInputTextDiff || input instanceof vscode.TabInputNotebookDiff) {
+        return `diff:${uri?.toString()}`;
+    }
+    return uri ? uri.toString() : `${getTabKind(tab)}:${tab.label}`;
+}
+
+/**
+ * Describe what kind of editor a tab without a document is
+ */
+export function getTabKind(tab: vscode.Tab): string {
+    const input = tab.input;
+    if (input instanceof vscode.TabInputTerminal) {
+        return 'Terminal';
+    }
+    if (input instanceof vscode.TabInputWebview) {
+        return 'Webview';
+    }
+    return 'Editor';
+}
+
+/**
+ * Make a tab the active editor. There is no API for it, so its group is focused
+ * and the tab is selected by its position
+ */
+export async function activateTab(tab: vscode.Tab): Promise<void> {
+    const focusGroupCommand = FOCUS_GROUP_COMMANDS[tab.group.viewColumn - 1];
+    const tabIndex = tab.group.tabs.indexOf(tab);
+    if (focusGroupCommand && tabIndex >= 0) {
+        await vscode.commands.executeCommand(focusGroupCommand);
+        await vscode.commands.executeCommand('workbench.action.openEditorAtIndex', tabIndex);
+    }
+}